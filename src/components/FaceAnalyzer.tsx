@@ -3,13 +3,33 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { estimateFacialAdiposity } from "@/lib/facialFat";
-import { computeHeartRate } from "@/lib/ppg";
-import { getFaceMetrics } from "@/lib/faceMetrics";
+import type { PulseAlgorithm, PulseTrace } from "@/lib/ppg";
+import { createStreamingPulseAnalyzer } from "@/lib/streamingPulse";
+import { interpolateSpectrum, type PowerSpectrum } from "@/lib/spectrum";
+import type { FrameTiming } from "@/lib/resample";
+import { createHeartRateTracker } from "@/lib/hrTracker";
+import type { Beat } from "@/lib/beats";
+import type { RespSource } from "@/lib/respiration";
+import type { TransitTimeResult } from "@/lib/transitTime";
+import { parseSpO2Calibration, DEFAULT_SPO2_CALIBRATION, type SpO2Calibration, type SpO2Result } from "@/lib/spo2";
+import type { MotionSample } from "@/lib/motionArtifact";
+import { calibrateFocalLength, getFaceMetrics, type FaceDistance, type GazeEstimate, type HeadPose } from "@/lib/faceMetrics";
+import { fitGazeCalibration, mapGazeToScreen, GAZE_CALIBRATION_TARGETS, type GazeCalibration, type GazeCalibrationSample, type ScreenPoint } from "@/lib/gazeCalibration";
+import type { ExpressionResult } from "@/lib/actionUnits";
+import { combineSymmetry, gradeSymmetry, measureSymmetry, type SymmetryExpression, type SymmetryGrade, type SymmetrySnapshot } from "@/lib/facialSymmetry";
 import { smoothChaikin, savitzkyGolay } from "@/lib/smoothing";
-import { estimateRespirationRate, estimateHRV } from "@/lib/ppgExtras";
+import type { MorphologyResult, NonlinearHRV } from "@/lib/ppgExtras";
+import type { VitalsRequest, VitalsResponse } from "@/lib/vitals.worker";
 import { createInsightsTracker } from "@/lib/faceInsights";
 import { estimateSimilarity2D } from "@/lib/affine";
+import { fitSkinModel, blendSkinModel, isSkinPixel, type SkinModel } from "@/lib/skin";
+import { PulseWaveformChart, PulseSpectrumChart, HeartRateTrendChart, AveragedBeatChart, PulseSpectrogram, type HRTrendPoint, type SpectrogramColumn } from "@/components/PulseCharts";
+import { buildRoiPolygons, smoothRoiPolygons, roiBounds, samplePolygon, type RoiName, type RoiPolygon } from "@/lib/roi";
 
 // MediaPipe Tasks Vision types come from the package at runtime; we keep TS light here
 // to avoid depending on their types directly.
@@ -20,7 +40,27 @@ const TASKS_VERSION = "0.10.8";
 const WASM_BASE = `https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@${TASKS_VERSION}/wasm`;
 const MODEL_URL = "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task";
 
-interface Sample { t: number; g: number }
+// Spectrogram rows: 30–240 BPM in 2 BPM steps; one column per HR update, 10 min kept
+const SPECTROGRAM_RANGE: [number, number] = [30, 240];
+const SPECTROGRAM_HZ = Array.from({ length: (SPECTROGRAM_RANGE[1] - SPECTROGRAM_RANGE[0]) / 2 + 1 }, (_, i) => (SPECTROGRAM_RANGE[0] + 2 * i) / 60);
+const HR_BAND: [number, number] = [45, 170];
+// Gaze calibration: time per target, of which the first part is left for the saccade
+const GAZE_TARGET_MS = 1800;
+const GAZE_SETTLE_MS = 600;
+// Focal length from the distance calibration, stored relative to the video width
+const FOCAL_RATIO_KEY = "faceAnalyzer.focalRatio";
+const MIN_VIEWING_CM = 40;
+// Distance calibration averages the iris size over this long, since a single frame is noisy
+const DISTANCE_CAL_MS = 1500;
+// Symmetry assessment: prompted expressions, each held for STEP_MS with the first SETTLE_MS skipped
+const SYMMETRY_STEPS: { expression: SymmetryExpression; label: string; prompt: string }[] = [
+  { expression: "rest", label: "At rest", prompt: "Relax your face and look at the camera" },
+  { expression: "smile", label: "Smile", prompt: "Smile broadly, showing your teeth" },
+  { expression: "raiseBrows", label: "Brow raise", prompt: "Raise your eyebrows as high as you can" },
+  { expression: "closeEyes", label: "Eye closure", prompt: "Close your eyes gently" },
+];
+const SYMMETRY_STEP_MS = 3000;
+const SYMMETRY_SETTLE_MS = 1000;
 
 export default function FaceAnalyzer() {
   const videoRef = useRef<HTMLVideoElement | null>(null);
@@ -31,23 +71,85 @@ export default function FaceAnalyzer() {
   const [initializing, setInitializing] = useState(true);
   const [bpm, setBpm] = useState<number | null>(null);
   const [hrConfidence, setHrConfidence] = useState(0);
+  const [hrUncertainty, setHrUncertainty] = useState<number | null>(null);
   const [fullness, setFullness] = useState(0);
   const [fatCategory, setFatCategory] = useState<"low" | "medium" | "high">("low");
   const [signalQuality, setSignalQuality] = useState(0);
+  const [qualityReasons, setQualityReasons] = useState<string[]>([]);
+  const [hrAlgorithm, setHrAlgorithm] = useState<PulseAlgorithm>("pos");
 
   const [blinkRate, setBlinkRate] = useState<number | null>(null);
   const [perclos, setPerclos] = useState(0);
   const [yawnProb, setYawnProb] = useState(0);
+  const [headPose, setHeadPose] = useState<HeadPose | null>(null);
+  const [gaze, setGaze] = useState<GazeEstimate | null>(null);
+  const [gazeTarget, setGazeTarget] = useState<number | null>(null); // calibration target on screen
+  const [gazeCalibration, setGazeCalibration] = useState<GazeCalibration | null>(null);
+  const [gazeCalError, setGazeCalError] = useState<string | null>(null);
+  const [gazePoint, setGazePoint] = useState<ScreenPoint | null>(null);
+  const gazeRef = useRef({ target: gazeTarget, calibration: gazeCalibration });
+  gazeRef.current = { target: gazeTarget, calibration: gazeCalibration };
+  const gazeTargetStartRef = useRef(0);
+  const gazeSamplesRef = useRef<GazeCalibrationSample[]>([]);
+  const gazeSmoothRef = useRef<ScreenPoint | null>(null);
+  const [distance, setDistance] = useState<FaceDistance | null>(null);
+  const [knownDistanceCm, setKnownDistanceCm] = useState("50");
+  const [distanceCalibrating, setDistanceCalibrating] = useState(false);
+  const [distanceCalError, setDistanceCalError] = useState<string | null>(null);
+  const [focalRatio, setFocalRatio] = useState<number | null>(() => {
+    const v = Number(window.localStorage.getItem(FOCAL_RATIO_KEY));
+    return v > 0 ? v : null;
+  });
+  const focalRatioRef = useRef(focalRatio);
+  focalRatioRef.current = focalRatio;
+  // iris diameters collected while a distance calibration runs, null otherwise
+  const distanceCalRef = useRef<{ distanceCm: number; irisPx: number[]; width: number } | null>(null);
+  const [symmetryStep, setSymmetryStep] = useState<number | null>(null);
+  // averaged snapshot per prompted expression from the last assessment
+  const [symmetryCaptures, setSymmetryCaptures] = useState<Partial<Record<SymmetryExpression, SymmetrySnapshot>>>({});
+  const [symmetryGrade, setSymmetryGrade] = useState<SymmetryGrade | null>(null);
+  const symmetryStepRef = useRef(symmetryStep);
+  symmetryStepRef.current = symmetryStep;
+  const symmetryStepStartRef = useRef(0);
+  const symmetryFramesRef = useRef<SymmetrySnapshot[]>([]);
+  const [expression, setExpression] = useState<ExpressionResult | null>(null);
+  const lastExpressionUpdateRef = useRef(0);
   const [respRate, setRespRate] = useState<number | null>(null);
+  const [respSources, setRespSources] = useState<RespSource[]>([]);
+  const [transit, setTransit] = useState<TransitTimeResult | null>(null);
   const [rmssd, setRmssd] = useState<number | null>(null);
+  const [lfHf, setLfHf] = useState<number | null>(null);
+  const [beatsCorrected, setBeatsCorrected] = useState(0);
+  const [morphology, setMorphology] = useState<MorphologyResult | null>(null);
+  const [hrvNonlinear, setHrvNonlinear] = useState<NonlinearHRV | null>(null);
 
-  const samplesRef = useRef<Sample[]>([]);
+  const beatsRef = useRef<Beat[]>([]);
+  // processFrame runs from the rAF closure, so read the selected algorithm through a ref
+  const hrAlgorithmRef = useRef<PulseAlgorithm>(hrAlgorithm);
+  hrAlgorithmRef.current = hrAlgorithm;
+  // Experimental SpO2 is computed only after an explicit opt-in
+  const [spo2Enabled, setSpo2Enabled] = useState(false);
+  const [spo2, setSpo2] = useState<SpO2Result | null>(null);
+  const [spo2Calibration, setSpo2Calibration] = useState<SpO2Calibration>(DEFAULT_SPO2_CALIBRATION);
+  const [spo2CalError, setSpo2CalError] = useState<string | null>(null);
   const smoothCtrlRef = useRef<{lx:number;ly:number;rx:number;ry:number;mx:number;my:number}|null>(null);
-  const smoothBoxRef = useRef<{x:number;y:number;w:number;h:number}|null>(null);
+  const roiPolysRef = useRef<RoiPolygon[] | null>(null);
+  const skinModelRef = useRef<SkinModel | null>(null);
+  const skinRatioRef = useRef(0);
+  const [skinRatio, setSkinRatio] = useState(0);
+  const [frameTiming, setFrameTiming] = useState<FrameTiming | null>(null);
+  const [roiWeights, setRoiWeights] = useState<Record<RoiName, number> | null>(null);
   const prevPointsRef = useRef<{x:number;y:number}[]|null>(null);
   const prevAnchorsRef = useRef<{L:{x:number;y:number};R:{x:number;y:number};M:{x:number;y:number}}|null>(null);
   const [motionSeries, setMotionSeries] = useState<{t:number;v:number}[]>([]);
   const [motionNow, setMotionNow] = useState(0);
+  const motionRmsRef = useRef(0);
+  const [motionGated, setMotionGated] = useState(0);
+  const [pulseTrace, setPulseTrace] = useState<PulseTrace | null>(null);
+  const [pulseSpectrum, setPulseSpectrum] = useState<PowerSpectrum | null>(null);
+  const [peakBpm, setPeakBpm] = useState<number | null>(null);
+  const [hrTrend, setHrTrend] = useState<HRTrendPoint[]>([]);
+  const [spectrogram, setSpectrogram] = useState<SpectrogramColumn[]>([]);
   const [jawRecording, setJawRecording] = useState(false);
   const jawDatasetRef = useRef<any[]>([]);
   const lastJawSaveRef = useRef(0);
@@ -56,6 +158,51 @@ export default function FaceAnalyzer() {
   const hiddenCanvas = useMemo(() => document.createElement("canvas"), []);
   const hiddenCtx = useMemo(() => hiddenCanvas.getContext("2d", { willReadFrequently: true }), [hiddenCanvas]);
   const insightsRef = useRef(createInsightsTracker());
+  const hrTrackerRef = useRef(createHeartRateTracker({ minBpm: 45, maxBpm: 170 }));
+  // incremental ROI-fused, motion-gated pulse analysis for the per-second updates; rebuilt when the algorithm changes
+  const pulseStreamRef = useRef({ algorithm: hrAlgorithm, analyzer: createStreamingPulseAnalyzer({ algorithm: hrAlgorithm, minBpm: 45, maxBpm: 170 }) });
+  // respiration, transit, HRV, morphology and SpO2 run in a worker fed with every frame
+  const vitalsWorkerRef = useRef<Worker | null>(null);
+
+  useEffect(() => {
+    const worker = new Worker(new URL("../lib/vitals.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (e: MessageEvent<VitalsResponse>) => {
+      const msg = e.data;
+      if (msg.type === "respiration") {
+        const rr = msg.respiration;
+        // green baseline from the streaming analyzer until enough beats are available
+        const fallback = rr.bpm == null ? pulseStreamRef.current.analyzer.respiration() : null;
+        const respBpm = rr.bpm ?? (fallback && fallback.confidence > 0.3 ? fallback.bpm : null);
+        setRespRate(respBpm ? Math.round(respBpm) : null);
+        setRespSources(rr.used);
+        setTransit(msg.transit);
+      } else if (msg.type === "hrv") {
+        setRmssd(msg.hrv.rmssd ?? null);
+        setLfHf(msg.hrv.lfHf);
+        setBeatsCorrected(msg.hrv.correctedPercent);
+        beatsRef.current = msg.hrv.fiducials;
+        setMorphology(msg.morphology);
+        setHrvNonlinear(msg.nonlinear);
+      } else {
+        setSpo2(msg.spo2);
+      }
+    };
+    vitalsWorkerRef.current = worker;
+    return () => {
+      worker.terminate();
+      vitalsWorkerRef.current = null;
+    };
+  }, []);
+
+  // the beat-based vitals use the same pulse extraction as the heart rate
+  useEffect(() => {
+    vitalsWorkerRef.current?.postMessage({ type: "algorithm", algorithm: hrAlgorithm } satisfies VitalsRequest);
+  }, [hrAlgorithm]);
+
+  // the worker computes SpO2 only while opted in
+  useEffect(() => {
+    vitalsWorkerRef.current?.postMessage({ type: "spo2", enabled: spo2Enabled, calibration: spo2Calibration } satisfies VitalsRequest);
+  }, [spo2Enabled, spo2Calibration]);
 
   // Signature interaction: reactive gradient position
   useEffect(() => {
@@ -92,7 +239,7 @@ export default function FaceAnalyzer() {
       baseOptions: { modelAssetPath: MODEL_URL },
       numFaces: 1,
       runningMode: "VIDEO",
-      outputFaceBlendshapes: false,
+      outputFaceBlendshapes: true,
       outputFacialTransformationMatrixes: true,
     });
 
@@ -117,6 +264,103 @@ export default function FaceAnalyzer() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Step through the calibration targets; fit once the last one has been shown
+  useEffect(() => {
+    if (gazeTarget == null) return;
+    gazeTargetStartRef.current = performance.now();
+    const id = window.setTimeout(() => {
+      if (gazeTarget + 1 < GAZE_CALIBRATION_TARGETS.length) {
+        setGazeTarget(gazeTarget + 1);
+        return;
+      }
+      const cal = fitGazeCalibration(gazeSamplesRef.current);
+      setGazeCalibration(cal);
+      setGazeCalError(cal ? null : "Gaze calibration failed: keep your eyes open and on each dot");
+      setGazeTarget(null);
+    }, GAZE_TARGET_MS);
+    return () => window.clearTimeout(id);
+  }, [gazeTarget]);
+
+  // Walk through the prompted expressions, then grade the averaged captures
+  useEffect(() => {
+    if (symmetryStep == null) return;
+    symmetryStepStartRef.current = performance.now();
+    const id = window.setTimeout(() => {
+      if (symmetryStep + 1 < SYMMETRY_STEPS.length) {
+        setSymmetryStep(symmetryStep + 1);
+        return;
+      }
+      const captures: Partial<Record<SymmetryExpression, SymmetrySnapshot>> = {};
+      for (const { expression } of SYMMETRY_STEPS) {
+        const snap = combineSymmetry(symmetryFramesRef.current.filter((f) => f.expression === expression));
+        if (snap) captures[expression] = snap;
+      }
+      setSymmetryCaptures(captures);
+      setSymmetryGrade(gradeSymmetry(captures));
+      setSymmetryStep(null);
+    }, SYMMETRY_STEP_MS);
+    return () => window.clearTimeout(id);
+  }, [symmetryStep]);
+
+  // Average the iris diameter over the capture, then derive the focal length from it
+  useEffect(() => {
+    if (!distanceCalibrating) return;
+    const id = window.setTimeout(() => {
+      const cal = distanceCalRef.current;
+      distanceCalRef.current = null;
+      setDistanceCalibrating(false);
+      // at least a third of the frames at ~30 fps must have a tracked iris
+      if (!cal || cal.irisPx.length < DISTANCE_CAL_MS / 100) {
+        setDistanceCalError("Distance calibration failed: keep your face in view with eyes open");
+        return;
+      }
+      const irisPx = cal.irisPx.reduce((a, b) => a + b, 0) / cal.irisPx.length;
+      const f = calibrateFocalLength(irisPx, cal.distanceCm);
+      if (!f) {
+        setDistanceCalError("Distance calibration failed: iris not measured");
+        return;
+      }
+      const ratio = f / cal.width;
+      window.localStorage.setItem(FOCAL_RATIO_KEY, String(ratio));
+      setFocalRatio(ratio);
+      setDistanceCalError(null);
+    }, DISTANCE_CAL_MS);
+    return () => window.clearTimeout(id);
+  }, [distanceCalibrating]);
+
+  const startSymmetryAssessment = () => {
+    symmetryFramesRef.current = [];
+    setSymmetryCaptures({});
+    setSymmetryGrade(null);
+    setSymmetryStep(0);
+  };
+
+  const startGazeCalibration = () => {
+    gazeSamplesRef.current = [];
+    gazeSmoothRef.current = null;
+    setGazePoint(null);
+    setGazeCalError(null);
+    setGazeTarget(0);
+  };
+
+  // One-time focal length calibration with the face at a known distance from the camera
+  const calibrateDistance = () => {
+    const distanceCm = Number(knownDistanceCm);
+    if (!knownDistanceCm.trim() || !(distanceCm > 0)) {
+      setDistanceCalError("Enter the distance from the camera to your eyes in cm");
+      return;
+    }
+    distanceCalRef.current = { distanceCm, irisPx: [], width: 0 };
+    setDistanceCalError(null);
+    setDistanceCalibrating(true);
+  };
+
+  const resetDistanceCalibration = () => {
+    window.localStorage.removeItem(FOCAL_RATIO_KEY);
+    setFocalRatio(null);
+    setDistanceCalError(null);
+  };
+
   const startLoop = () => {
     const tick = () => {
       processFrame();
@@ -129,6 +373,37 @@ export default function FaceAnalyzer() {
     rafRef.current = null;
   };
 
+  // Download the detected beats (last ~5 min) as CSV; times are performance.now() ms
+  const exportBeats = () => {
+    const rows = beatsRef.current.map((b) =>
+      [b.onset.toFixed(1), b.peak.toFixed(1), b.notch != null ? b.notch.toFixed(1) : "", b.amplitude.toExponential(4), b.quality.toFixed(3)].join(",")
+    );
+    const csv = ["onset_ms,peak_ms,notch_ms,amplitude,quality", ...rows].join("\n");
+    const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "beats.csv";
+    a.click();
+    // revoking in the same tick can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  // Calibration profile: JSON with { name?, a, b, reference?: "blue" | "green", minRatio?, maxRatio? }
+  const loadSpo2Calibration = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const cal = parseSpO2Calibration(JSON.parse(await file.text()));
+      if (!cal) {
+        setSpo2CalError("Invalid calibration profile");
+        return;
+      }
+      setSpo2Calibration(cal);
+      setSpo2CalError(null);
+    } catch {
+      setSpo2CalError("Could not read calibration JSON");
+    }
+  };
+
   function processFrame() {
     const video = videoRef.current;
     const canvas = overlayRef.current;
@@ -167,12 +442,61 @@ export default function FaceAnalyzer() {
       }
 
       // Compute contours and metrics
-      const m = getFaceMetrics(points as any);
+      const m = getFaceMetrics(points as any, {
+        transformMatrix: res.facialTransformationMatrixes?.[0]?.data,
+        imageWidth: canvas.width,
+        imageHeight: canvas.height,
+        focalLength: focalRatioRef.current != null ? focalRatioRef.current * canvas.width : undefined,
+        blendshapes: res.faceBlendshapes?.[0]?.categories,
+      });
       // Update insights tracker (blinks, PERCLOS, yawn)
       const snap = insightsRef.current.update(m, ts);
       setBlinkRate(snap.blinkRatePerMin ?? null);
       setPerclos(snap.perclos);
       setYawnProb(snap.yawnProbability);
+      // skip re-renders for sub-degree changes
+      setHeadPose((prev) =>
+        prev && prev.source === m.head.source &&
+        Math.abs(prev.yawDeg - m.head.yawDeg) < 1 && Math.abs(prev.pitchDeg - m.head.pitchDeg) < 1 && Math.abs(prev.rollDeg - m.head.rollDeg) < 1
+          ? prev
+          : m.head
+      );
+      setGaze((prev) =>
+        prev && m.gaze && Math.abs(prev.yawDeg - m.gaze.yawDeg) < 1 && Math.abs(prev.pitchDeg - m.gaze.pitchDeg) < 1 ? prev : m.gaze
+      );
+      // AU bars at ~10 Hz
+      if (ts - lastExpressionUpdateRef.current > 100) {
+        setExpression(m.expression);
+        lastExpressionUpdateRef.current = ts;
+      }
+      const symStep = symmetryStepRef.current;
+      if (symStep != null && ts - symmetryStepStartRef.current > SYMMETRY_SETTLE_MS) {
+        const snap = measureSymmetry(points, { imageWidth: canvas.width, imageHeight: canvas.height, expression: SYMMETRY_STEPS[symStep].expression, metrics: m });
+        if (snap) symmetryFramesRef.current.push(snap);
+      }
+      const distanceCal = distanceCalRef.current;
+      if (distanceCal && m.distance) {
+        distanceCal.irisPx.push(m.distance.irisDiameterPx);
+        distanceCal.width = canvas.width;
+      }
+      setDistance((prev) =>
+        prev && m.distance && prev.calibrated === m.distance.calibrated && Math.abs(prev.distanceCm - m.distance.distanceCm) < 1 ? prev : m.distance
+      );
+      if (m.gaze) {
+        const { target, calibration } = gazeRef.current;
+        if (target != null) {
+          if (ts - gazeTargetStartRef.current > GAZE_SETTLE_MS) {
+            gazeSamplesRef.current.push({ target, point: GAZE_CALIBRATION_TARGETS[target], yawDeg: m.gaze.yawDeg, pitchDeg: m.gaze.pitchDeg });
+          }
+        } else if (calibration) {
+          // light smoothing against landmark jitter
+          const q = mapGazeToScreen(calibration, m.gaze);
+          const prev = gazeSmoothRef.current;
+          const next = prev ? { x: prev.x + 0.3 * (q.x - prev.x), y: prev.y + 0.3 * (q.y - prev.y) } : q;
+          gazeSmoothRef.current = next;
+          setGazePoint((p) => (p && Math.hypot(p.x - next.x, p.y - next.y) < 0.005 ? p : next));
+        }
+      }
 
       // Draw jawline path
       if (m.jawline.path.length) {
@@ -196,6 +520,13 @@ export default function FaceAnalyzer() {
         ctx.arc(ep.x * canvas.width, ep.y * canvas.height, 1.6, 0, Math.PI * 2);
         ctx.fill();
       }
+      ctx.strokeStyle = "hsl(var(--accent))";
+      for (const iris of [m.eyes.left.iris, m.eyes.right.iris]) {
+        if (!iris) continue;
+        ctx.beginPath();
+        ctx.arc(iris.center.x * canvas.width, iris.center.y * canvas.height, Math.max(1, iris.radius * canvas.width), 0, Math.PI * 2);
+        ctx.stroke();
+      }
 
       // Facial motion metric (relative landmark movement)
       {
@@ -222,6 +553,7 @@ export default function FaceAnalyzer() {
           }
           const rms = Math.sqrt(sum / currPx.length) / Math.max(1, box.h);
           setMotionNow(rms);
+          motionRmsRef.current = rms;
           setMotionSeries((s) => {
             const ns = [...s, { t: ts, v: rms }];
             while (ns.length > 300) ns.shift();
@@ -283,43 +615,16 @@ export default function FaceAnalyzer() {
         }
       }
 
-      // Heart-rate ROI: forehead band (top 15% of face box) with smoothing
-      const roi = {
-        x: Math.round(box.x + box.w * 0.3),
-        y: Math.round(box.y + box.h * 0.08),
-        w: Math.round(box.w * 0.4),
-        h: Math.round(box.h * 0.12),
-      };
-      let sroi = roi;
-      const pb = smoothBoxRef.current;
-      const aR = 0.85;
-      if (pb) {
-        sroi = {
-          x: Math.round(aR * pb.x + (1 - aR) * roi.x),
-          y: Math.round(aR * pb.y + (1 - aR) * roi.y),
-          w: Math.round(aR * pb.w + (1 - aR) * roi.w),
-          h: Math.round(aR * pb.h + (1 - aR) * roi.h),
-        };
-      }
-      smoothBoxRef.current = sroi;
-
-      // ROI visual disabled
-
-      // Sample mean green from ROI
-      if (hiddenCtx) {
-        hiddenCanvas.width = sroi.w;
-        hiddenCanvas.height = sroi.h;
-        hiddenCtx.drawImage(
-          video,
-          sroi.x,
-          sroi.y,
-          sroi.w,
-          sroi.h,
-          0,
-          0,
-          sroi.w,
-          sroi.h
-        );
+      // Heart-rate ROIs: forehead and both cheeks from mesh landmarks, with smoothing
+      const rois = smoothRoiPolygons(roiPolysRef.current, buildRoiPolygons(points, canvas.width, canvas.height));
+      roiPolysRef.current = rois;
+      const rb = roiBounds(rois, canvas.width, canvas.height);
+
+      // Sample mean R/G/B per region with polygon masks
+      if (hiddenCtx && rois.length && rb.w > 0 && rb.h > 0) {
+        hiddenCanvas.width = rb.w;
+        hiddenCanvas.height = rb.h;
+        hiddenCtx.drawImage(video, rb.x, rb.y, rb.w, rb.h, 0, 0, rb.w, rb.h);
         // Show ROI preview below frontalized crop
         const hrCanvas = hrRef.current;
         if (hrCanvas) {
@@ -328,50 +633,98 @@ export default function FaceAnalyzer() {
           if (hrCanvas.width !== targetW || hrCanvas.height !== targetH) {
             hrCanvas.width = targetW; hrCanvas.height = targetH;
           }
-          hctx?.clearRect(0, 0, hrCanvas.width, hrCanvas.height);
-          hctx?.drawImage(video, sroi.x, sroi.y, sroi.w, sroi.h, 0, 0, hrCanvas.width, hrCanvas.height);
+          if (hctx) {
+            hctx.clearRect(0, 0, hrCanvas.width, hrCanvas.height);
+            hctx.drawImage(video, rb.x, rb.y, rb.w, rb.h, 0, 0, hrCanvas.width, hrCanvas.height);
+            const sx = hrCanvas.width / rb.w, sy = hrCanvas.height / rb.h;
+            hctx.strokeStyle = "hsl(var(--ring))";
+            hctx.lineWidth = 1;
+            for (const r of rois) {
+              hctx.beginPath();
+              r.polygon.forEach((p, idx) => {
+                const px = (p.x - rb.x) * sx;
+                const py = (p.y - rb.y) * sy;
+                if (idx === 0) hctx.moveTo(px, py);
+                else hctx.lineTo(px, py);
+              });
+              hctx.closePath();
+              hctx.stroke();
+            }
+          }
         }
-        const img = hiddenCtx.getImageData(0, 0, sroi.w, sroi.h);
-        const data = img.data;
-        let sumG = 0;
-        const step = 4 * 4; // stride to reduce work
-        for (let i = 1; i < data.length; i += step) sumG += data[i];
-        const samples = data.length / step;
-        const meanG = sumG / Math.max(1, samples);
-        samplesRef.current.push({ t: performance.now(), g: meanG });
-
-        // keep last 20s of data max
-        const cutoff = performance.now() - 20000;
-        while (samplesRef.current.length && samplesRef.current[0].t < cutoff) {
-          samplesRef.current.shift();
+        const img = hiddenCtx.getImageData(0, 0, rb.w, rb.h);
+        const t = performance.now();
+        const origin = { x: rb.x, y: rb.y };
+        // Adapt the skin color model to this face, then mask out hair, brows and highlights
+        skinModelRef.current = blendSkinModel(skinModelRef.current, fitSkinModel(img, rois.map((r) => r.polygon), origin));
+        const skin = skinModelRef.current;
+        const mask = skin ? (r: number, g: number, b: number) => isSkinPixel(r, g, b, skin) : undefined;
+        let sumR = 0, sumG = 0, sumB = 0, pixels = 0, total = 0;
+        const regionColors = rois.map((r) => ({ name: r.name, c: samplePolygon(img, r.polygon, origin, 2, mask) }));
+        for (const { c } of regionColors) {
+          sumR += c.r * c.pixels;
+          sumG += c.g * c.pixels;
+          sumB += c.b * c.pixels;
+          pixels += c.pixels;
+          total += c.total;
+        }
+        const ratio = skin && total ? pixels / total : 0;
+        skinRatioRef.current = 0.9 * skinRatioRef.current + 0.1 * ratio;
+        if (pixels > 0) {
+          const sample = { t, r: sumR / pixels, g: sumG / pixels, b: sumB / pixels };
+          // masked-out regions are sent as null and hold their last color downstream
+          const regions = {} as Record<RoiName, { r: number; g: number; b: number } | null>;
+          for (const { name, c } of regionColors) regions[name] = c.pixels > 0 ? { r: c.r, g: c.g, b: c.b } : null;
+          // head pose/motion at the same instant, used as artifact reference
+          const motion: MotionSample = {
+            t,
+            x: (m.box.minX + m.box.maxX) / 2,
+            y: (m.box.minY + m.box.maxY) / 2,
+            scale: m.box.height,
+            roll: m.head.roll,
+            yaw: m.head.yaw,
+            pitch: m.head.pitch,
+            rms: motionRmsRef.current,
+          };
+          if (pulseStreamRef.current.algorithm !== hrAlgorithmRef.current) {
+            const algorithm = hrAlgorithmRef.current;
+            pulseStreamRef.current = { algorithm, analyzer: createStreamingPulseAnalyzer({ algorithm, minBpm: 45, maxBpm: 170 }) };
+          }
+          pulseStreamRef.current.analyzer.push(sample, { regions, motion });
+          vitalsWorkerRef.current?.postMessage({ type: "frame", sample, regions, motion } satisfies VitalsRequest);
         }
 
-        // Compute HR every ~1s
-        if (samplesRef.current.length > 64 && (!lastHRCompute || ts - lastHRCompute > 1000)) {
+        // HR every ~1s from the streaming analyzer (ROI fusion, motion artifact rejection)
+        if (!lastHRCompute || ts - lastHRCompute > 1000) {
           lastHRCompute = ts;
-          const hr = computeHeartRate(samplesRef.current, { minBpm: 45, maxBpm: 170 });
-          setBpm(hr.bpm ? Math.round(hr.bpm) : null);
-          setHrConfidence(hr.confidence);
-
-          // Simple signal quality: normalized variance
-          const gVals = samplesRef.current.map((s) => s.g);
-          const mu = gVals.reduce((a, b) => a + b, 0) / gVals.length;
-          const variance = gVals.reduce((a, b) => a + (b - mu) * (b - mu), 0) / gVals.length;
-          const sq = Math.max(0, Math.min(1, variance / 100));
-          setSignalQuality(sq);
-
-          // Respiration (every ~2s)
-          if (!lastRespCompute || ts - lastRespCompute > 2000) {
-            const rr = estimateRespirationRate(samplesRef.current);
-            setRespRate(rr.bpm ? Math.round(rr.bpm) : null);
-            lastRespCompute = ts;
-          }
+          const hr = pulseStreamRef.current.analyzer.heartRate({ skinRatio: skinRatioRef.current });
+          // nothing to show until the filters have settled and a few seconds are buffered
+          if (hr.trace) {
+            setMotionGated(hr.motion?.corruptedFraction ?? 0);
+            setRoiWeights(hr.roiWeights);
+            setFrameTiming(hr.timing);
+            // Track across windows: harmonic checks, jump gating and Kalman smoothing
+            const tracked = hrTrackerRef.current.update(hr.spectrum, ts);
+            setBpm(tracked.bpm ? Math.round(tracked.bpm) : null);
+            setHrUncertainty(tracked.uncertainty);
+            setHrConfidence(hr.confidence);
+            setPulseTrace(hr.trace);
+            setPulseSpectrum(hr.spectrum);
+            setPeakBpm(hr.bpm);
+            // keep the last 60s of estimates for the trend chart
+            setHrTrend((prev) => [
+              ...prev.filter((p) => ts - p.t <= 60000),
+              { t: ts, bpm: tracked.bpm, measured: tracked.measurement, uncertainty: tracked.uncertainty },
+            ]);
+            if (hr.spectrum) {
+              const column = { t: ts, power: interpolateSpectrum(hr.spectrum, SPECTROGRAM_HZ), bpm: tracked.bpm };
+              setSpectrogram((prev) => [...prev.slice(-599), column]);
+            }
 
-          // HRV (every ~5s)
-          if (!lastHRVCompute || ts - lastHRVCompute > 5000) {
-            const hrv = estimateHRV(samplesRef.current);
-            setRmssd(hrv.rmssd ?? null);
-            lastHRVCompute = ts;
+            // Signal quality index: spectral SNR, beat consistency, skewness, perfusion and skin coverage
+            setSignalQuality(hr.quality?.score ?? 0);
+            setQualityReasons(hr.quality?.reasons ?? []);
+            setSkinRatio(skinRatioRef.current);
           }
         }
       }
@@ -392,14 +745,30 @@ export default function FaceAnalyzer() {
   }
 
   let lastHRCompute = 0;
-  let lastRespCompute = 0;
-  let lastHRVCompute = 0;
 
   const confidenceBadge = hrConfidence > 0.66 ? "High" : hrConfidence > 0.33 ? "Medium" : "Low";
   const confVariant = hrConfidence > 0.66 ? "default" : hrConfidence > 0.33 ? "secondary" : "outline";
 
   return (
     <div className="w-full grid gap-6">
+      {gazeTarget != null && (
+        <div className="fixed inset-0 z-50 bg-background">
+          <div
+            className="absolute h-4 w-4 -translate-x-1/2 -translate-y-1/2 rounded-full bg-primary animate-pulse"
+            style={{ left: `${GAZE_CALIBRATION_TARGETS[gazeTarget].x * 100}%`, top: `${GAZE_CALIBRATION_TARGETS[gazeTarget].y * 100}%` }}
+          />
+          <p className="absolute inset-x-0 bottom-6 text-center text-sm text-muted-foreground">
+            Look at the dot and keep your head still ({gazeTarget + 1}/{GAZE_CALIBRATION_TARGETS.length})
+          </p>
+        </div>
+      )}
+      {gazePoint && gazeTarget == null && (
+        <div
+          className="pointer-events-none fixed z-40 h-6 w-6 -translate-x-1/2 -translate-y-1/2 rounded-full bg-primary/30 ring-2 ring-primary"
+          style={{ left: `${Math.max(0, Math.min(1, gazePoint.x)) * 100}%`, top: `${Math.max(0, Math.min(1, gazePoint.y)) * 100}%` }}
+          aria-hidden
+        />
+      )}
       <div className="space-y-2">
         <h1 className="text-3xl md:text-4xl font-bold tracking-tight">Face Keypoint & Vital Analyzer</h1>
         <p className="text-muted-foreground">Real‑time face landmarks, remote heart rate (rPPG), and facial fullness heuristics from your camera. Not medical advice.</p>
@@ -426,16 +795,29 @@ export default function FaceAnalyzer() {
           )}
         </div>
 
-        <div className="mt-4 flex items-center gap-3">
+        <div className="mt-4 flex flex-wrap items-center gap-3">
           <Button variant="default" onClick={() => (streaming ? stopLoop() : startLoop())}>
             {rafRef.current ? "Pause" : "Resume"}
           </Button>
           <Button variant={jawRecording ? "destructive" : "secondary"} onClick={() => setJawRecording((v) => !v)}>
             {jawRecording ? "Stop Jaw Recording" : "Record Jaw Opening"}
           </Button>
+          <Button variant="outline" onClick={exportBeats}>Export Beats</Button>
+          <Button variant="outline" onClick={startGazeCalibration} disabled={!streaming || gazeTarget != null}>
+            {gazeCalibration ? "Recalibrate Gaze" : "Calibrate Gaze"}
+          </Button>
           <Badge variant="secondary">Signal quality: {(signalQuality * 100).toFixed(0)}%</Badge>
+          <Badge variant="outline">Skin pixels: {(skinRatio * 100).toFixed(0)}%</Badge>
+          {frameTiming && (
+            <Badge variant="outline">
+              {frameTiming.meanFps.toFixed(0)} fps · jitter {frameTiming.jitterMs.toFixed(1)} ms · dropped {(frameTiming.dropRate * 100).toFixed(0)}%
+            </Badge>
+          )}
           <Badge variant="outline">Clips: {jawDatasetRef.current.length}</Badge>
         </div>
+        {qualityReasons.length > 0 && (
+          <p className="mt-2 text-xs text-muted-foreground">{qualityReasons.join(" · ")}</p>
+        )}
 
         <Separator className="my-4" />
 
@@ -447,8 +829,41 @@ export default function FaceAnalyzer() {
             </div>
             <div className="mt-2 text-4xl font-bold">
               {bpm ? `${bpm} BPM` : "—"}
+              {bpm && hrUncertainty != null && (
+                <span className="ml-2 text-base font-medium text-muted-foreground">± {hrUncertainty.toFixed(0)}</span>
+              )}
             </div>
-            <p className="text-xs text-muted-foreground mt-2">Hold steady with good lighting. A stable forehead ROI is auto-tracked; wait ~15–30 seconds.</p>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              variant="outline"
+              className="mt-2 justify-start"
+              value={hrAlgorithm}
+              onValueChange={(v) => v && setHrAlgorithm(v as PulseAlgorithm)}
+              aria-label="rPPG algorithm"
+            >
+              <ToggleGroupItem value="green">Green</ToggleGroupItem>
+              <ToggleGroupItem value="chrom">CHROM</ToggleGroupItem>
+              <ToggleGroupItem value="pos">POS</ToggleGroupItem>
+            </ToggleGroup>
+            {motionGated > 0 && (
+              <p className="text-xs text-muted-foreground mt-2">Motion-corrupted: {(motionGated * 100).toFixed(0)}% of window gated</p>
+            )}
+            {roiWeights && (
+              <p className="text-xs text-muted-foreground mt-2">
+                ROI weights: forehead {(roiWeights.forehead * 100).toFixed(0)}% · left cheek {(roiWeights.leftCheek * 100).toFixed(0)}% · right cheek {(roiWeights.rightCheek * 100).toFixed(0)}%
+              </p>
+            )}
+            {transit && transit.regions.some((r) => r.delayMs != null) && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Transit vs. forehead (research):{" "}
+                {transit.regions
+                  .filter((r) => r.delayMs != null)
+                  .map((r) => `${r.region === "leftCheek" ? "left cheek" : r.region === "rightCheek" ? "right cheek" : r.region} ${r.delayMs! >= 0 ? "+" : ""}${r.delayMs!.toFixed(0)} ms`)
+                  .join(" · ")}
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground mt-2">Hold steady with good lighting. Forehead and cheek ROIs are auto-tracked; wait ~15–30 seconds.</p>
           </Card>
 
           <Card className="p-4">
@@ -484,15 +899,242 @@ export default function FaceAnalyzer() {
                 <div className="text-muted-foreground">Yawn</div>
                 <div className="font-semibold">{(yawnProb * 100).toFixed(0)}%</div>
               </div>
+              <div>
+                <div className="text-muted-foreground">Head pose</div>
+                <div className="font-semibold">
+                  {headPose ? `${headPose.yawDeg.toFixed(0)}° / ${headPose.pitchDeg.toFixed(0)}° / ${headPose.rollDeg.toFixed(0)}°` : "—"}
+                </div>
+                {headPose && (
+                  <div className="text-xs text-muted-foreground">
+                    yaw / pitch / roll ({headPose.source}{headPose.translation ? `, ${Math.abs(headPose.translation.z).toFixed(0)} cm` : ""})
+                  </div>
+                )}
+              </div>
+              <div>
+                <div className="text-muted-foreground">Gaze</div>
+                <div className="font-semibold">{gaze ? `${gaze.yawDeg.toFixed(0)}° / ${gaze.pitchDeg.toFixed(0)}°` : "—"}</div>
+                {gaze && (
+                  <div className="text-xs text-muted-foreground">
+                    eyes in head {gaze.eyeYawDeg.toFixed(0)}° / {gaze.eyePitchDeg.toFixed(0)}°
+                    {gazeCalibration && ` · calibrated ±${(gazeCalibration.errorRms * 100).toFixed(0)}%`}
+                  </div>
+                )}
+                {gazeCalError && <div className="text-xs text-destructive">{gazeCalError}</div>}
+              </div>
+              <div>
+                <div className="text-muted-foreground">Distance</div>
+                <div className="font-semibold">{distance ? `${distance.distanceCm.toFixed(0)} cm` : "—"}</div>
+                {distance && (
+                  <div className={distance.distanceCm < MIN_VIEWING_CM ? "text-xs text-destructive" : "text-xs text-muted-foreground"}>
+                    {distance.distanceCm < MIN_VIEWING_CM ? "Too close to the screen" : distance.calibrated ? "calibrated" : "uncalibrated, ±20%"}
+                  </div>
+                )}
+              </div>
               <div>
                 <div className="text-muted-foreground">Resp. rate</div>
                 <div className="font-semibold">{respRate != null ? `${respRate} brpm` : "—"}</div>
+                {respSources.length > 0 && <div className="text-xs text-muted-foreground">from {respSources.join(", ")}</div>}
               </div>
-              <div className="col-span-2">
+              <div>
                 <div className="text-muted-foreground">HRV (RMSSD)</div>
-                <div className="font-semibold">{rmssd != null ? `${rmssd.toFixed(0)} ms` : "—"}</div>
+                <div className="font-semibold">
+                  {rmssd != null ? `${rmssd.toFixed(0)} ms` : "—"}
+                  {rmssd != null && beatsCorrected > 0 && (
+                    <span className="ml-1 text-xs font-normal text-muted-foreground">({beatsCorrected.toFixed(0)}% beats corrected)</span>
+                  )}
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">LF/HF</div>
+                <div className="font-semibold">{lfHf != null ? lfHf.toFixed(2) : "— (needs 2 min)"}</div>
+              </div>
+              {hrvNonlinear && (
+                <div className="col-span-2 text-xs text-muted-foreground">
+                  pNN50 {hrvNonlinear.pnn50?.toFixed(0) ?? "—"}% · SD1/SD2 {hrvNonlinear.sd1?.toFixed(0) ?? "—"}/{hrvNonlinear.sd2?.toFixed(0) ?? "—"} ms
+                  {" "}· DFA α1 {hrvNonlinear.dfaAlpha1?.toFixed(2) ?? "—"} · SampEn {hrvNonlinear.sampleEntropy?.toFixed(2) ?? "—"}
+                </div>
+              )}
+            </div>
+            <Separator className="my-3" />
+            <div className="flex items-end gap-2">
+              <Label className="text-xs text-muted-foreground">
+                Known distance (cm)
+                <Input
+                  type="number"
+                  min={20}
+                  max={150}
+                  value={knownDistanceCm}
+                  onChange={(e) => setKnownDistanceCm(e.target.value)}
+                  className="mt-1 h-8 w-20"
+                />
+              </Label>
+              <Button size="sm" variant="outline" onClick={calibrateDistance} disabled={!distance || distanceCalibrating}>
+                {distanceCalibrating ? "Hold still…" : "Calibrate Distance"}
+              </Button>
+              {focalRatio != null && <Button size="sm" variant="ghost" onClick={resetDistanceCalibration}>Reset</Button>}
+            </div>
+            {distanceCalError && <div className="mt-1 text-xs text-destructive">{distanceCalError}</div>}
+            <Separator className="my-3" />
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="spo2-opt-in" className="text-sm">Experimental SpO₂</Label>
+              <Switch
+                id="spo2-opt-in"
+                checked={spo2Enabled}
+                onCheckedChange={(v) => {
+                  setSpo2Enabled(v);
+                  if (!v) setSpo2(null);
+                }}
+              />
+            </div>
+            {spo2Enabled && (
+              <div className="mt-2 text-sm">
+                <div className="font-semibold">
+                  {spo2?.spo2 != null && !spo2.lowConfidence ? `${spo2.spo2.toFixed(0)}%` : "Low confidence"}
+                  {spo2?.ratio != null && <span className="ml-2 text-xs font-normal text-muted-foreground">R = {spo2.ratio.toFixed(2)}</span>}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Not a medical measurement. Calibration: {spo2Calibration.name}
+                  {spo2?.quality?.reasons.length ? ` · ${spo2.quality.reasons.join(" · ")}` : ""}
+                </p>
+                <Label className="mt-2 block text-xs text-muted-foreground">
+                  Load calibration JSON
+                  <input type="file" accept="application/json,.json" className="mt-1 block text-xs" onChange={(e) => loadSpo2Calibration(e.target.files?.[0])} />
+                </Label>
+                {spo2CalError && <p className="text-xs text-destructive mt-1">{spo2CalError}</p>}
+              </div>
+            )}
+          </Card>
+        </div>
+        <div className="mt-4 grid md:grid-cols-2 gap-4">
+          <Card className="p-4">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold">Pulse waveform</h3>
+              <Badge variant="outline">{pulseTrace?.beats.length ?? 0} beats</Badge>
+            </div>
+            <div className="mt-2 text-muted-foreground text-xs">Filtered pulse (last 10 s); red dots mark systolic peaks, grey dots the pulse feet.</div>
+            <div className="mt-2">
+              <PulseWaveformChart trace={pulseTrace} />
+            </div>
+          </Card>
+          <Card className="p-4">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold">Pulse spectrum</h3>
+              <Badge variant="outline">Peak: {peakBpm != null ? `${peakBpm.toFixed(0)} BPM` : "—"}</Badge>
+            </div>
+            <div className="mt-2 text-muted-foreground text-xs">Power vs. BPM; shaded area is the 45–170 BPM search band.</div>
+            <div className="mt-2">
+              <PulseSpectrumChart spectrum={pulseSpectrum} peakBpm={peakBpm} band={HR_BAND} />
+            </div>
+          </Card>
+          <Card className="p-4">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold">Heart-rate trend</h3>
+            </div>
+            <div className="mt-2 text-muted-foreground text-xs">Tracked HR ± uncertainty (60 s); dots are per-window peaks.</div>
+            <div className="mt-2">
+              <HeartRateTrendChart trend={hrTrend} />
+            </div>
+          </Card>
+          <Card className="p-4">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold">Averaged beat</h3>
+              <Badge variant="outline">{morphology?.beats.length ?? 0} beats</Badge>
+            </div>
+            <div className="mt-2 text-muted-foreground text-xs">
+              Rise {morphology?.riseTimeMs != null ? `${morphology.riseTimeMs.toFixed(0)} ms` : "—"}
+              {" "}· width₅₀ {morphology?.width50Ms != null ? `${morphology.width50Ms.toFixed(0)} ms` : "—"}
+              {" "}· RI {morphology?.reflectionIndex != null ? `${morphology.reflectionIndex.toFixed(0)}%` : "—"}
+              {" "}· aging index {morphology?.agingIndex != null ? morphology.agingIndex.toFixed(2) : "—"}
+            </div>
+            <div className="mt-2">
+              <AveragedBeatChart template={morphology?.template ?? null} />
+            </div>
+          </Card>
+        </div>
+        <div className="mt-4">
+          <Card className="p-4">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold">Pulse spectrogram</h3>
+              <Badge variant="outline">
+                {spectrogram.length > 1 ? ((spectrogram[spectrogram.length - 1].t - spectrogram[0].t) / 60000).toFixed(1) : "0.0"} min
+              </Badge>
+            </div>
+            <div className="mt-2 text-muted-foreground text-xs">
+              Spectrum of each HR window over the session (30–240 BPM, dB per column); blue line is the tracked HR, dashed lines the search band.
+            </div>
+            <div className="mt-2">
+              <PulseSpectrogram columns={spectrogram} bpmRange={SPECTROGRAM_RANGE} band={HR_BAND} />
+            </div>
+          </Card>
+        </div>
+        <div className="mt-4 grid md:grid-cols-2 gap-4">
+          <Card className="p-4">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold">Facial symmetry</h3>
+              {symmetryGrade?.grade != null && (
+                <Badge variant={symmetryGrade.grade >= 3 ? "destructive" : "secondary"}>
+                  Grade {["I", "II", "III", "IV", "V", "VI"][symmetryGrade.grade - 1]} · {symmetryGrade.label}
+                </Badge>
+              )}
+            </div>
+            <div className="mt-2 flex flex-wrap items-center gap-3">
+              <Button size="sm" variant="outline" onClick={startSymmetryAssessment} disabled={!streaming || symmetryStep != null}>
+                {symmetryGrade ? "Repeat Assessment" : "Assess Symmetry"}
+              </Button>
+              {symmetryStep != null && (
+                <span className="text-sm font-medium">
+                  {symmetryStep + 1}/{SYMMETRY_STEPS.length}: {SYMMETRY_STEPS[symmetryStep].prompt}
+                </span>
+              )}
+            </div>
+            {SYMMETRY_STEPS.some(({ expression }) => symmetryCaptures[expression]) && (
+              <div className="mt-2 text-xs text-muted-foreground">
+                <div>Region asymmetry (% of eye width):</div>
+                {SYMMETRY_STEPS.map(({ expression, label }) => {
+                  const snap = symmetryCaptures[expression];
+                  if (!snap) return null;
+                  return (
+                    <div key={expression}>
+                      {label}: {Object.values(snap.regions).map((r) => `${r.region} ${r.score.toFixed(1)}`).join(" · ")} · overall {snap.overall.toFixed(1)}
+                      {!snap.reliable && " (unreliable)"}
+                    </div>
+                  );
+                })}
               </div>
+            )}
+            {symmetryGrade && symmetryGrade.movements.length > 0 && (
+              <p className="mt-1 text-xs text-muted-foreground">
+                Movement ratio (weaker / stronger side):{" "}
+                {symmetryGrade.movements
+                  .map((mv) => `${mv.expression === "raiseBrows" ? "brows" : mv.expression === "closeEyes" ? "eye closure" : "smile"} ${mv.ratio != null ? `${(mv.ratio * 100).toFixed(0)}%` : "—"}`)
+                  .join(" · ")}
+                {symmetryGrade.weakerSide && ` · weaker side: image ${symmetryGrade.weakerSide}`}
+              </p>
+            )}
+            {symmetryGrade && symmetryGrade.reasons.length > 0 && (
+              <p className="mt-1 text-xs text-muted-foreground">{symmetryGrade.reasons.join(" · ")}</p>
+            )}
+            <p className="mt-2 text-xs text-muted-foreground">House–Brackmann-like screening from landmark geometry. Not a clinical grading.</p>
+          </Card>
+          <Card className="p-4">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold">Expression & action units</h3>
+              <Badge variant="outline">{expression?.dominant ?? "—"}</Badge>
             </div>
+            {expression ? (
+              <>
+                <div className="mt-2">
+                  <Bars items={Object.entries(expression.expressions).map(([name, v]) => ({ label: name === "browRaise" ? "brow raise" : name, value: v }))} />
+                </div>
+                <Separator className="my-3" />
+                <Bars
+                  items={expression.actionUnits.map((a) => ({ label: `AU${a.au}`, value: a.intensity, hint: `${a.name}${a.level ? ` (${a.level})` : ""}` }))}
+                  compact
+                />
+              </>
+            ) : (
+              <p className="mt-2 text-xs text-muted-foreground">Waiting for blendshapes…</p>
+            )}
           </Card>
         </div>
         <div className="mt-4">
@@ -512,6 +1154,23 @@ export default function FaceAnalyzer() {
   );
 }
 
+// Horizontal 0..1 bars, one row per item
+function Bars({ items, compact = false }: { items: { label: string; value: number; hint?: string }[]; compact?: boolean }) {
+  return (
+    <div className={compact ? "grid grid-cols-2 gap-x-4 gap-y-1" : "grid gap-1.5"}>
+      {items.map((it) => (
+        <div key={it.label} className="flex items-center gap-2 text-xs" title={it.hint}>
+          <span className={compact ? "w-10 shrink-0 text-muted-foreground" : "w-20 shrink-0 text-muted-foreground"}>{it.label}</span>
+          <div className="h-2 flex-1 rounded-full bg-secondary overflow-hidden">
+            <div className="h-full bg-primary transition-all" style={{ width: `${Math.round(Math.max(0, Math.min(1, it.value)) * 100)}%` }} />
+          </div>
+          <span className="w-8 shrink-0 text-right tabular-nums">{(it.value * 100).toFixed(0)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function Sparkline({ data, width = 600, height = 80 }: { data: number[]; width?: number; height?: number }) {
   const n = data.length || 1;
   const max = Math.max(1e-6, ...data);
@@ -0,0 +1,244 @@
+import { useEffect, useMemo, useRef } from "react";
+import { Area, CartesianGrid, ComposedChart, Line, ReferenceArea, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { PulseTrace } from "@/lib/ppg";
+import type { PowerSpectrum } from "@/lib/spectrum";
+
+export interface HRTrendPoint {
+  t: number; // ms
+  bpm: number | null; // tracked estimate
+  measured: number | null; // raw spectral peak of the window
+  uncertainty: number | null;
+}
+
+const waveformConfig = {
+  value: { label: "Pulse", color: "hsl(var(--primary))" },
+  beat: { label: "Systolic peak", color: "hsl(var(--destructive))" },
+  onset: { label: "Foot", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+const spectrumConfig = {
+  power: { label: "Power", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const trendConfig = {
+  bpm: { label: "Tracked", color: "hsl(var(--primary))" },
+  measured: { label: "Window peak", color: "hsl(var(--muted-foreground))" },
+  range: { label: "± 1σ", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+// Filtered pulse over the last `seconds`, with detected peaks and feet marked
+export function PulseWaveformChart({ trace, seconds = 10 }: { trace: PulseTrace | null; seconds?: number }) {
+  const data = useMemo(() => {
+    if (!trace?.t.length) return [];
+    const end = trace.t[trace.t.length - 1];
+    const peaks = new Set(trace.beats.map((b) => b.peakIndex));
+    const onsets = new Set(trace.beats.map((b) => b.onsetIndex));
+    const rows: { s: number; value: number; beat: number | null; onset: number | null }[] = [];
+    trace.t.forEach((t, i) => {
+      if (end - t > seconds * 1000) return;
+      const v = trace.value[i];
+      rows.push({ s: (t - end) / 1000, value: v, beat: peaks.has(i) ? v : null, onset: onsets.has(i) ? v : null });
+    });
+    return rows;
+  }, [trace, seconds]);
+
+  return (
+    <ChartContainer config={waveformConfig} className="aspect-auto h-40 w-full">
+      <ComposedChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="s" type="number" domain={[-seconds, 0]} tickFormatter={(v) => `${v}s`} tickLine={false} axisLine={false} />
+        <YAxis hide domain={["auto", "auto"]} />
+        <Line dataKey="value" type="monotone" stroke="var(--color-value)" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+        <Line dataKey="beat" stroke="none" dot={{ r: 3, fill: "var(--color-beat)" }} isAnimationActive={false} />
+        <Line dataKey="onset" stroke="none" dot={{ r: 2, fill: "var(--color-onset)" }} isAnimationActive={false} />
+      </ComposedChart>
+    </ChartContainer>
+  );
+}
+
+// Power spectrum in BPM with the search band shaded and the chosen peak marked
+export function PulseSpectrumChart({
+  spectrum,
+  peakBpm,
+  band,
+  maxBpm = 240,
+}: {
+  spectrum: PowerSpectrum | null;
+  peakBpm: number | null;
+  band: [number, number]; // bpm
+  maxBpm?: number;
+}) {
+  const data = useMemo(() => {
+    if (!spectrum) return [];
+    const rows: { bpm: number; power: number }[] = [];
+    let max = 0;
+    spectrum.freqs.forEach((f, k) => {
+      const bpm = f * 60;
+      if (bpm < 20 || bpm > maxBpm) return;
+      rows.push({ bpm, power: spectrum.power[k] });
+      max = Math.max(max, spectrum.power[k]);
+    });
+    // normalized so the axis stays readable across algorithms
+    return max > 0 ? rows.map((r) => ({ ...r, power: r.power / max })) : rows;
+  }, [spectrum, maxBpm]);
+
+  return (
+    <ChartContainer config={spectrumConfig} className="aspect-auto h-40 w-full">
+      <ComposedChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="bpm" type="number" domain={[20, maxBpm]} tickFormatter={(v) => `${Math.round(v)}`} tickLine={false} axisLine={false} />
+        <YAxis hide domain={[0, 1]} />
+        <ReferenceArea x1={band[0]} x2={band[1]} fill="hsl(var(--muted))" fillOpacity={0.4} />
+        <Area dataKey="power" type="monotone" stroke="var(--color-power)" fill="var(--color-power)" fillOpacity={0.2} isAnimationActive={false} />
+        {peakBpm != null && (
+          <ReferenceLine x={peakBpm} stroke="hsl(var(--destructive))" strokeDasharray="3 3" label={{ value: `${peakBpm.toFixed(0)}`, position: "top", fontSize: 10 }} />
+        )}
+        <ChartTooltip content={<ChartTooltipContent hideLabel formatter={(v, _n, item) => `${Number(item.payload.bpm).toFixed(1)} BPM · ${(Number(v) * 100).toFixed(0)}%`} />} />
+      </ComposedChart>
+    </ChartContainer>
+  );
+}
+
+// Tracked HR with its uncertainty band, plus the raw per-window peaks
+export function HeartRateTrendChart({ trend }: { trend: HRTrendPoint[] }) {
+  const data = useMemo(() => {
+    if (!trend.length) return [];
+    const end = trend[trend.length - 1].t;
+    return trend.map((p) => ({
+      s: (p.t - end) / 1000,
+      bpm: p.bpm,
+      measured: p.measured,
+      range: p.bpm != null && p.uncertainty != null ? [p.bpm - p.uncertainty, p.bpm + p.uncertainty] : null,
+    }));
+  }, [trend]);
+
+  return (
+    <ChartContainer config={trendConfig} className="aspect-auto h-40 w-full">
+      <ComposedChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="s" type="number" domain={["dataMin", 0]} tickFormatter={(v) => `${Math.round(v)}s`} tickLine={false} axisLine={false} />
+        <YAxis width={32} domain={["dataMin - 5", "dataMax + 5"]} tickFormatter={(v) => `${Math.round(v)}`} tickLine={false} axisLine={false} />
+        <Area dataKey="range" stroke="none" fill="var(--color-range)" fillOpacity={0.15} isAnimationActive={false} />
+        <Line dataKey="measured" stroke="none" dot={{ r: 2, fill: "var(--color-measured)" }} isAnimationActive={false} />
+        <Line dataKey="bpm" type="monotone" stroke="var(--color-bpm)" strokeWidth={2} dot={false} connectNulls isAnimationActive={false} />
+        <ChartTooltip content={<ChartTooltipContent hideLabel formatter={(v, name) => (Array.isArray(v) ? null : `${trendConfig[name as keyof typeof trendConfig]?.label ?? name}: ${Number(v).toFixed(0)} BPM`)} />} />
+      </ComposedChart>
+    </ChartContainer>
+  );
+}
+
+const templateConfig = {
+  value: { label: "Averaged beat", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+// Ensemble-averaged beat, amplitude-normalized, time from the pulse foot
+export function AveragedBeatChart({ template }: { template: { t: number[]; value: number[] } | null }) {
+  const data = useMemo(() => (template ? template.t.map((t, i) => ({ ms: t, value: template.value[i] })) : []), [template]);
+
+  return (
+    <ChartContainer config={templateConfig} className="aspect-auto h-40 w-full">
+      <ComposedChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="ms" type="number" domain={[0, "dataMax"]} tickFormatter={(v) => `${Math.round(v)}ms`} tickLine={false} axisLine={false} />
+        <YAxis hide domain={[-0.1, 1.1]} />
+        <Line dataKey="value" type="monotone" stroke="var(--color-value)" strokeWidth={2} dot={false} isAnimationActive={false} />
+      </ComposedChart>
+    </ChartContainer>
+  );
+}
+
+export interface SpectrogramColumn {
+  t: number; // ms
+  power: number[]; // power on the `bpmRange` grid, low to high
+  bpm: number | null; // tracked HR at this time
+}
+
+// Perceptual dark-to-bright ramp (approximate inferno stops)
+const HEAT_STOPS: [number, number, number][] = [
+  [0, 0, 4], [40, 11, 84], [101, 21, 110], [159, 42, 99], [212, 72, 66], [245, 125, 21], [250, 193, 39], [252, 255, 164],
+];
+
+function heat(v: number): [number, number, number] {
+  const x = Math.max(0, Math.min(1, v)) * (HEAT_STOPS.length - 1);
+  const i = Math.min(HEAT_STOPS.length - 2, Math.floor(x));
+  const f = x - i;
+  const a = HEAT_STOPS[i], b = HEAT_STOPS[i + 1];
+  return [a[0] + (b[0] - a[0]) * f, a[1] + (b[1] - a[1]) * f, a[2] + (b[2] - a[2]) * f];
+}
+
+// Time–frequency heat map of the per-window pulse spectra (one column per update), each
+// column in dB relative to its own maximum, with the tracked HR overlaid and the search band
+// marked. Columns scroll right to left; the newest is at the right edge.
+export function PulseSpectrogram({
+  columns,
+  bpmRange,
+  band,
+  maxColumns = 600,
+  floorDb = -25,
+}: {
+  columns: SpectrogramColumn[];
+  bpmRange: [number, number];
+  band?: [number, number];
+  maxColumns?: number;
+  floorDb?: number;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    const rows = columns[0]?.power.length ?? 0;
+    const w = maxColumns, h = Math.max(1, rows);
+    if (canvas.width !== w || canvas.height !== h) { canvas.width = w; canvas.height = h; }
+    const img = ctx.createImageData(w, h);
+    const shown = columns.slice(-w);
+    const x0 = w - shown.length;
+    shown.forEach((col, c) => {
+      const max = Math.max(...col.power);
+      for (let r = 0; r < rows; r++) {
+        const db = max > 0 && col.power[r] > 0 ? 10 * Math.log10(col.power[r] / max) : floorDb;
+        const [R, G, B] = heat(1 - db / floorDb);
+        const p = ((rows - 1 - r) * w + x0 + c) * 4; // low BPM at the bottom
+        img.data[p] = R; img.data[p + 1] = G; img.data[p + 2] = B; img.data[p + 3] = 255;
+      }
+    });
+    ctx.putImageData(img, 0, 0);
+
+    const y = (bpm: number) => ((bpmRange[1] - bpm) / (bpmRange[1] - bpmRange[0])) * h;
+    if (band) {
+      ctx.save();
+      ctx.strokeStyle = "rgba(255,255,255,0.35)";
+      ctx.setLineDash([4, 4]);
+      for (const b of band) {
+        ctx.beginPath();
+        ctx.moveTo(0, y(b));
+        ctx.lineTo(w, y(b));
+        ctx.stroke();
+      }
+      ctx.restore();
+    }
+    ctx.strokeStyle = "rgb(56,189,248)";
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    let pen = false;
+    shown.forEach((col, c) => {
+      if (col.bpm == null) { pen = false; return; }
+      if (pen) ctx.lineTo(x0 + c + 0.5, y(col.bpm));
+      else ctx.moveTo(x0 + c + 0.5, y(col.bpm));
+      pen = true;
+    });
+    ctx.stroke();
+  }, [columns, bpmRange, band, maxColumns, floorDb]);
+
+  return (
+    <div className="relative w-full">
+      <canvas ref={canvasRef} className="w-full h-40 rounded-md ring-1 ring-border [image-rendering:pixelated]" aria-label="Pulse spectrogram" />
+      <div className="pointer-events-none absolute inset-y-0 left-1 flex flex-col justify-between py-1 text-[10px] text-white/80">
+        <span>{bpmRange[1]}</span>
+        <span>{bpmRange[0]}</span>
+      </div>
+    </div>
+  );
+}
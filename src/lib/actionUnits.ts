@@ -0,0 +1,91 @@
+// FACS action units and basic expressions from FaceLandmarker's 52 ARKit-style blendshapes.
+// Blendshapes are already per-frame activations in 0..1, so each AU is the blendshape (or the
+// mean of its left/right pair) that moves the same muscles; AUs without a counterpart are left out.
+
+export interface BlendshapeCategory { categoryName: string; score: number }
+
+export type ExpressionName = "smile" | "frown" | "surprise" | "browRaise";
+
+export interface ActionUnit {
+  au: number; // FACS number
+  name: string;
+  intensity: number; // 0..1, mean of both sides
+  left: number | null; // image-left side, for bilateral AUs
+  right: number | null;
+  level: "" | "A" | "B" | "C" | "D" | "E"; // FACS intensity letter, "" below trace
+}
+
+export interface ExpressionResult {
+  actionUnits: ActionUnit[];
+  expressions: Record<ExpressionName, number>; // 0..1
+  dominant: ExpressionName | "neutral";
+  blendshapes: Record<string, number>;
+}
+
+// AU → blendshapes; two names are a [image-left, image-right] pair. ARKit's "Left"/"Right"
+// are the subject's sides, i.e. mirrored relative to the image.
+const AU_MAP: { au: number; name: string; shapes: [string] | [string, string] }[] = [
+  { au: 1, name: "Inner brow raiser", shapes: ["browInnerUp"] },
+  { au: 2, name: "Outer brow raiser", shapes: ["browOuterUpRight", "browOuterUpLeft"] },
+  { au: 4, name: "Brow lowerer", shapes: ["browDownRight", "browDownLeft"] },
+  { au: 5, name: "Upper lid raiser", shapes: ["eyeWideRight", "eyeWideLeft"] },
+  { au: 6, name: "Cheek raiser", shapes: ["cheekSquintRight", "cheekSquintLeft"] },
+  { au: 7, name: "Lid tightener", shapes: ["eyeSquintRight", "eyeSquintLeft"] },
+  { au: 9, name: "Nose wrinkler", shapes: ["noseSneerRight", "noseSneerLeft"] },
+  { au: 10, name: "Upper lip raiser", shapes: ["mouthUpperUpRight", "mouthUpperUpLeft"] },
+  { au: 12, name: "Lip corner puller", shapes: ["mouthSmileRight", "mouthSmileLeft"] },
+  { au: 14, name: "Dimpler", shapes: ["mouthDimpleRight", "mouthDimpleLeft"] },
+  { au: 15, name: "Lip corner depressor", shapes: ["mouthFrownRight", "mouthFrownLeft"] },
+  { au: 16, name: "Lower lip depressor", shapes: ["mouthLowerDownRight", "mouthLowerDownLeft"] },
+  { au: 17, name: "Chin raiser", shapes: ["mouthShrugLower"] },
+  { au: 18, name: "Lip pucker", shapes: ["mouthPucker"] },
+  { au: 20, name: "Lip stretcher", shapes: ["mouthStretchRight", "mouthStretchLeft"] },
+  { au: 22, name: "Lip funneler", shapes: ["mouthFunnel"] },
+  { au: 24, name: "Lip pressor", shapes: ["mouthPressRight", "mouthPressLeft"] },
+  { au: 26, name: "Jaw drop", shapes: ["jawOpen"] },
+  { au: 28, name: "Lip suck", shapes: ["mouthRollLower"] },
+  { au: 34, name: "Cheek puff", shapes: ["cheekPuff"] },
+  { au: 43, name: "Eyes closed", shapes: ["eyeBlinkRight", "eyeBlinkLeft"] },
+];
+
+// Lower bounds of the FACS A (trace) … E (maximum) intensities on the 0..1 scale
+const LEVELS: [number, ActionUnit["level"]][] = [[0.85, "E"], [0.65, "D"], [0.45, "C"], [0.25, "B"], [0.1, "A"]];
+const NEUTRAL_BELOW = 0.3; // no expression above this → neutral
+
+function clamp01(v: number) { return Math.max(0, Math.min(1, v)); }
+
+function level(v: number): ActionUnit["level"] {
+  for (const [lo, l] of LEVELS) if (v >= lo) return l;
+  return "";
+}
+
+// Action units and expression scores for one face; null when the model gave no blendshapes
+export function estimateActionUnits(categories: BlendshapeCategory[] | null | undefined): ExpressionResult | null {
+  if (!categories?.length) return null;
+  const blendshapes: Record<string, number> = {};
+  for (const c of categories) blendshapes[c.categoryName] = c.score;
+  const get = (name: string) => clamp01(blendshapes[name] ?? 0);
+
+  const actionUnits: ActionUnit[] = AU_MAP.map(({ au, name, shapes }) => {
+    const left = shapes.length === 2 ? get(shapes[0]) : null;
+    const right = shapes.length === 2 ? get(shapes[1]) : null;
+    const intensity = left != null && right != null ? (left + right) / 2 : get(shapes[0]);
+    return { au, name, intensity, left, right, level: level(intensity) };
+  });
+  const au = (n: number) => actionUnits.find((a) => a.au === n)?.intensity ?? 0;
+
+  // EMFACS-style prototypes: smile 6+12 (AU6 marks a Duchenne smile), frown 4+15,
+  // surprise 1+2+5+26, brow raise 1+2
+  const expressions: Record<ExpressionName, number> = {
+    smile: clamp01(au(12) * (0.75 + 0.25 * au(6))),
+    frown: clamp01(0.5 * au(4) + 0.5 * au(15)),
+    surprise: clamp01(0.2 * au(1) + 0.2 * au(2) + 0.3 * au(5) + 0.3 * au(26)),
+    browRaise: clamp01((au(1) + au(2)) / 2),
+  };
+  let dominant: ExpressionResult["dominant"] = "neutral";
+  let best = NEUTRAL_BELOW;
+  for (const [name, v] of Object.entries(expressions) as [ExpressionName, number][]) {
+    if (v > best) { best = v; dominant = name; }
+  }
+  return { actionUnits, expressions, dominant, blendshapes };
+}
@@ -0,0 +1,156 @@
+export type OnsetMethod = "tangent" | "d2max";
+
+export interface Beat {
+  onset: number; // ms, pulse foot
+  peak: number; // ms, systolic peak
+  notch: number | null; // ms, dicrotic notch candidate
+  onsetIndex: number;
+  peakIndex: number;
+  notchIndex: number | null;
+  amplitude: number; // peak − foot, signal units
+  quality: number; // 0..1, shape and amplitude agreement with the other beats
+}
+
+function percentile(x: number[], p: number) {
+  if (!x.length) return 0;
+  const s = [...x].sort((a, b) => a - b);
+  return s[Math.min(s.length - 1, Math.max(0, Math.round(p * (s.length - 1))))];
+}
+
+function pearson(a: ArrayLike<number>, b: ArrayLike<number>) {
+  const n = Math.min(a.length, b.length);
+  let ma = 0, mb = 0;
+  for (let i = 0; i < n; i++) { ma += a[i]; mb += b[i]; }
+  ma /= n; mb /= n;
+  let num = 0, da = 0, db = 0;
+  for (let i = 0; i < n; i++) {
+    const x = a[i] - ma, y = b[i] - mb;
+    num += x * y; da += x * x; db += y * y;
+  }
+  return da > 0 && db > 0 ? num / Math.sqrt(da * db) : 0;
+}
+
+// Time (ms) at a fractional sample index
+function timeAt(t: ArrayLike<number>, idx: number) {
+  const i = Math.max(0, Math.min(t.length - 1, Math.floor(idx)));
+  const j = Math.min(t.length - 1, i + 1);
+  return t[i] + (t[j] - t[i]) * (idx - i);
+}
+
+// Beat segment from onset to the next onset, resampled to `len` points
+function beatShape(x: ArrayLike<number>, from: number, to: number, len: number) {
+  const out = new Float64Array(len);
+  for (let k = 0; k < len; k++) {
+    const pos = from + ((to - from) * k) / (len - 1);
+    const i = Math.floor(pos), j = Math.min(x.length - 1, i + 1);
+    out[k] = x[i] + (x[j] - x[i]) * (pos - i);
+  }
+  return out;
+}
+
+// Beat-by-beat fiducials of a band-passed pulse sampled at `t` (ms, uniform rate `fs`).
+// Beats are anchored on the maximum upslope (largest first derivative), which is sharper than
+// the rounded systolic peak; a refractory period suppresses double detections. Per beat:
+// - onset: intersecting tangents (tangent at the max upslope meets the horizontal through the
+//   preceding minimum) or the maximum of the second derivative before the upslope
+// - peak: maximum after the upslope
+// - notch: first local minimum after the peak, else the first second-derivative maximum
+//   on the downslope (a shoulder rather than a distinct notch)
+export function detectBeats(
+  pulse: ArrayLike<number>,
+  t: ArrayLike<number>,
+  fs: number,
+  opts?: { hrHz?: number | null; refractoryMs?: number; maxBpm?: number; onset?: OnsetMethod }
+): Beat[] {
+  const n = Math.min(pulse.length, t.length);
+  if (n < 8 || !(fs > 0)) return [];
+  const maxBpm = opts?.maxBpm ?? 180;
+  // physiologic refractory period; tightened around a known heart rate
+  let refractory = Math.round(((opts?.refractoryMs ?? 60000 / maxBpm) / 1000) * fs);
+  if (opts?.hrHz && opts.hrHz > 0) refractory = Math.max(refractory, Math.round((0.6 * fs) / opts.hrHz));
+  refractory = Math.max(1, refractory);
+  const period = opts?.hrHz && opts.hrHz > 0 ? fs / opts.hrHz : (1.5 * refractory) / 0.6;
+
+  const d1 = new Float64Array(n);
+  const d2 = new Float64Array(n);
+  for (let i = 1; i < n - 1; i++) {
+    d1[i] = (pulse[i + 1] - pulse[i - 1]) / 2;
+    d2[i] = pulse[i + 1] - 2 * pulse[i] + pulse[i - 1];
+  }
+
+  // upslope maxima above a fraction of the typical upslope
+  const slopes: number[] = [];
+  for (let i = 2; i < n - 2; i++) if (d1[i] > 0 && d1[i] > d1[i - 1] && d1[i] >= d1[i + 1]) slopes.push(d1[i]);
+  const thr = 0.4 * percentile(slopes, 0.9);
+  const ups: number[] = [];
+  for (let i = 2; i < n - 2; i++) {
+    if (!(d1[i] > thr && d1[i] > d1[i - 1] && d1[i] >= d1[i + 1])) continue;
+    const last = ups[ups.length - 1];
+    if (last != null && i - last < refractory) {
+      if (d1[i] > d1[last]) ups[ups.length - 1] = i;
+    } else {
+      ups.push(i);
+    }
+  }
+
+  const search = Math.max(2, Math.round(0.5 * period));
+  const raw: Omit<Beat, "quality">[] = [];
+  for (let b = 0; b < ups.length; b++) {
+    const u = ups[b];
+    // minimum between the previous beat's upslope and this one bounds the foot search
+    const from = Math.max(0, b ? Math.max(ups[b - 1] + 1, u - search) : u - search);
+    let minI = u;
+    for (let i = from; i < u; i++) if (pulse[i] < pulse[minI]) minI = i;
+    if (minI === u || minI === 0) continue; // foot not inside the window
+
+    let onsetIdx: number;
+    if ((opts?.onset ?? "tangent") === "tangent") {
+      onsetIdx = d1[u] > 0 ? u + (pulse[minI] - pulse[u]) / d1[u] : minI;
+      onsetIdx = Math.max(minI, Math.min(u, onsetIdx));
+    } else {
+      onsetIdx = minI;
+      for (let i = minI; i < u; i++) if (d2[i] > d2[onsetIdx]) onsetIdx = i;
+    }
+
+    const to = Math.min(n - 1, b + 1 < ups.length ? ups[b + 1] : u + search);
+    let peakIdx = u;
+    for (let i = u; i <= Math.min(to, u + search); i++) if (pulse[i] > pulse[peakIdx]) peakIdx = i;
+    if (peakIdx === u || peakIdx >= n - 1) continue; // peak not inside the window
+
+    let notchIdx: number | null = null;
+    for (let i = peakIdx + 1; i < to - 1; i++) {
+      if (pulse[i] < pulse[i - 1] && pulse[i] <= pulse[i + 1]) { notchIdx = i; break; }
+    }
+    if (notchIdx == null) {
+      for (let i = peakIdx + 2; i < to - 1; i++) {
+        if (d1[i] < 0 && d2[i] > 0 && d2[i] > d2[i - 1] && d2[i] >= d2[i + 1]) { notchIdx = i; break; }
+      }
+    }
+
+    raw.push({
+      onset: timeAt(t, onsetIdx),
+      peak: t[peakIdx],
+      notch: notchIdx != null ? t[notchIdx] : null,
+      onsetIndex: Math.round(onsetIdx),
+      peakIndex: peakIdx,
+      notchIndex: notchIdx,
+      amplitude: pulse[peakIdx] - pulse[minI],
+    });
+  }
+
+  // quality: correlation with the ensemble beat times amplitude agreement with the median
+  const len = 32;
+  const shapes = raw.map((r, k) => {
+    const end = k + 1 < raw.length ? raw[k + 1].onsetIndex : Math.round(r.onsetIndex + period);
+    return end < n && end - r.onsetIndex > 3 ? beatShape(pulse, r.onsetIndex, end, len) : null;
+  });
+  const template = new Float64Array(len);
+  const valid = shapes.filter((s): s is Float64Array => s != null);
+  for (const s of valid) for (let k = 0; k < len; k++) template[k] += s[k] / valid.length;
+  const medAmp = percentile(raw.map((r) => r.amplitude), 0.5);
+  return raw.map((r, k) => {
+    const corr = shapes[k] && valid.length >= 3 ? Math.max(0, pearson(shapes[k]!, template)) : 0.5;
+    const amp = medAmp > 0 ? Math.max(0, 1 - Math.abs(r.amplitude - medAmp) / medAmp) : 0;
+    return { ...r, quality: corr * amp };
+  });
+}
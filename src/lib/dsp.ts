@@ -0,0 +1,202 @@
+// Shared filtering for PPG traces: Butterworth IIR design as biquad cascades,
+// zero-phase filtering and smoothness-priors detrending.
+
+// Second-order section, a0 normalized to 1
+export interface Biquad {
+  b0: number; b1: number; b2: number;
+  a1: number; a2: number;
+}
+
+export interface BandOptions {
+  low: number; // Hz
+  high: number; // Hz
+  order?: number; // Butterworth order per edge (default 2)
+}
+
+// Pole angles of an analog Butterworth prototype -> Q of each conjugate pair
+function butterworthQs(order: number) {
+  const qs: number[] = [];
+  for (let k = 0; k < Math.floor(order / 2); k++) {
+    const theta = (Math.PI * (2 * k + 1)) / (2 * order);
+    qs.push(1 / (2 * Math.cos(theta)));
+  }
+  return qs;
+}
+
+function clampCutoff(fc: number, fs: number) {
+  return Math.max(1e-6, Math.min(fc, fs * 0.499));
+}
+
+// Bilinear-transform sections (RBJ cookbook form)
+function lowpassSection(w0: number, q: number): Biquad {
+  const cos = Math.cos(w0), alpha = Math.sin(w0) / (2 * q);
+  const a0 = 1 + alpha;
+  return {
+    b0: (1 - cos) / 2 / a0, b1: (1 - cos) / a0, b2: (1 - cos) / 2 / a0,
+    a1: (-2 * cos) / a0, a2: (1 - alpha) / a0,
+  };
+}
+
+function highpassSection(w0: number, q: number): Biquad {
+  const cos = Math.cos(w0), alpha = Math.sin(w0) / (2 * q);
+  const a0 = 1 + alpha;
+  return {
+    b0: (1 + cos) / 2 / a0, b1: -(1 + cos) / a0, b2: (1 + cos) / 2 / a0,
+    a1: (-2 * cos) / a0, a2: (1 - alpha) / a0,
+  };
+}
+
+// First-order sections for odd orders, stored as degenerate biquads
+function lowpassFirstOrder(w0: number): Biquad {
+  const k = Math.tan(w0 / 2);
+  const a0 = 1 + k;
+  return { b0: k / a0, b1: k / a0, b2: 0, a1: (k - 1) / a0, a2: 0 };
+}
+
+function highpassFirstOrder(w0: number): Biquad {
+  const k = Math.tan(w0 / 2);
+  const a0 = 1 + k;
+  return { b0: 1 / a0, b1: -1 / a0, b2: 0, a1: (k - 1) / a0, a2: 0 };
+}
+
+export function butterworthLowpass(order: number, fc: number, fs: number): Biquad[] {
+  const n = Math.max(1, Math.round(order));
+  const w0 = (2 * Math.PI * clampCutoff(fc, fs)) / fs;
+  const sections = butterworthQs(n).map((q) => lowpassSection(w0, q));
+  if (n % 2) sections.push(lowpassFirstOrder(w0));
+  return sections;
+}
+
+export function butterworthHighpass(order: number, fc: number, fs: number): Biquad[] {
+  const n = Math.max(1, Math.round(order));
+  const w0 = (2 * Math.PI * clampCutoff(fc, fs)) / fs;
+  const sections = butterworthQs(n).map((q) => highpassSection(w0, q));
+  if (n % 2) sections.push(highpassFirstOrder(w0));
+  return sections;
+}
+
+// Band-pass as a high-pass/low-pass cascade (suitable for the wide PPG bands)
+export function butterworthBandpass(order: number, low: number, high: number, fs: number): Biquad[] {
+  return [...butterworthHighpass(order, low, fs), ...butterworthLowpass(order, high, fs)];
+}
+
+// Causal filtering through all sections (transposed direct form II)
+export function sosFilter(sections: Biquad[], input: ArrayLike<number>): Float64Array {
+  const out = Float64Array.from(input);
+  for (const s of sections) {
+    let z1 = 0, z2 = 0;
+    for (let i = 0; i < out.length; i++) {
+      const x = out[i];
+      const y = s.b0 * x + z1;
+      z1 = s.b1 * x - s.a1 * y + z2;
+      z2 = s.b2 * x - s.a2 * y;
+      out[i] = y;
+    }
+  }
+  return out;
+}
+
+// Sample-by-sample `sosFilter` that keeps its state between calls, for streaming use
+export function createSosStream(sections: Biquad[]) {
+  const z = new Float64Array(2 * sections.length);
+  return {
+    step(x: number) {
+      let v = x;
+      for (let k = 0; k < sections.length; k++) {
+        const s = sections[k];
+        const y = s.b0 * v + z[2 * k];
+        z[2 * k] = s.b1 * v - s.a1 * y + z[2 * k + 1];
+        z[2 * k + 1] = s.b2 * v - s.a2 * y;
+        v = y;
+      }
+      return v;
+    },
+    reset() { z.fill(0); },
+  };
+}
+
+// Zero-phase forward/backward filtering with odd-reflection padding at both ends
+export function filtfilt(sections: Biquad[], input: ArrayLike<number>): Float64Array {
+  const n = input.length;
+  if (n < 2 || !sections.length) return Float64Array.from(input);
+  const pad = Math.min(n - 1, 6 * sections.length * 3);
+  const ext = new Float64Array(n + 2 * pad);
+  const first = input[0], last = input[n - 1];
+  for (let i = 0; i < pad; i++) ext[i] = 2 * first - input[pad - i];
+  for (let i = 0; i < n; i++) ext[pad + i] = input[i];
+  for (let i = 0; i < pad; i++) ext[pad + n + i] = 2 * last - input[n - 2 - i];
+
+  const fwd = sosFilter(sections, ext);
+  fwd.reverse();
+  const bwd = sosFilter(sections, fwd);
+  bwd.reverse();
+  return bwd.slice(pad, pad + n);
+}
+
+export function bandpass(input: ArrayLike<number>, fs: number, band: BandOptions): Float64Array {
+  return filtfilt(butterworthBandpass(band.order ?? 2, band.low, band.high, fs), input);
+}
+
+// Smoothness-priors regularization parameter giving ~`fc` Hz trend cut-off at `fs`
+export function lambdaForCutoff(fc: number, fs: number) {
+  const w = (2 * Math.PI * clampCutoff(fc, fs)) / fs;
+  return 1 / (w * w);
+}
+
+// Smoothness-priors detrending (Tarvainen et al. 2002):
+// trend = (I + λ² D2ᵀD2)⁻¹ z, solved as a banded (pentadiagonal) Cholesky system.
+export function detrendSmoothnessPriors(input: ArrayLike<number>, lambda: number): Float64Array {
+  const n = input.length;
+  const out = Float64Array.from(input);
+  if (n < 3) {
+    let m = 0;
+    for (let i = 0; i < n; i++) m += out[i];
+    m /= Math.max(1, n);
+    for (let i = 0; i < n; i++) out[i] -= m;
+    return out;
+  }
+  const l2 = lambda * lambda;
+  // band of A = I + λ² D2ᵀD2: diagonal, first and second off-diagonals
+  const d = new Float64Array(n).fill(1);
+  const o1 = new Float64Array(n - 1);
+  const o2 = new Float64Array(n - 2);
+  const c = [1, -2, 1];
+  for (let i = 0; i < n - 2; i++) {
+    for (let a = 0; a < 3; a++) {
+      d[i + a] += l2 * c[a] * c[a];
+      if (a < 2) o1[i + a] += l2 * c[a] * c[a + 1];
+    }
+    o2[i] += l2 * c[0] * c[2];
+  }
+
+  // banded Cholesky A = L Lᵀ
+  const L0 = new Float64Array(n);
+  const L1 = new Float64Array(n - 1);
+  const L2 = new Float64Array(n - 2);
+  for (let j = 0; j < n; j++) {
+    let s = d[j];
+    if (j >= 1) s -= L1[j - 1] * L1[j - 1];
+    if (j >= 2) s -= L2[j - 2] * L2[j - 2];
+    L0[j] = Math.sqrt(Math.max(s, 1e-12));
+    if (j < n - 1) L1[j] = (o1[j] - (j >= 1 ? L2[j - 1] * L1[j - 1] : 0)) / L0[j];
+    if (j < n - 2) L2[j] = o2[j] / L0[j];
+  }
+
+  // forward then backward substitution
+  const y = new Float64Array(n);
+  for (let j = 0; j < n; j++) {
+    let s = out[j];
+    if (j >= 1) s -= L1[j - 1] * y[j - 1];
+    if (j >= 2) s -= L2[j - 2] * y[j - 2];
+    y[j] = s / L0[j];
+  }
+  const trend = new Float64Array(n);
+  for (let j = n - 1; j >= 0; j--) {
+    let s = y[j];
+    if (j < n - 1) s -= L1[j] * trend[j + 1];
+    if (j < n - 2) s -= L2[j] * trend[j + 2];
+    trend[j] = s / L0[j];
+  }
+  for (let i = 0; i < n; i++) out[i] -= trend[i];
+  return out;
+}
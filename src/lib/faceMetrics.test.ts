@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { getFaceMetrics, type Point3D } from "./faceMetrics";
+
+const W = 640, H = 480, FOCAL = 600;
+
+// The canonical vertices the PnP solve uses (cm, y up, z toward the camera)
+const MODEL: [number, [number, number, number]][] = [
+  [1, [0, -3.41, 5.98]],
+  [152, [0, -9.05, 4.12]],
+  [33, [-4.45, 2.66, 3.17]],
+  [263, [4.45, 2.66, 3.17]],
+  [61, [-2.46, -4.34, 4.28]],
+  [291, [2.46, -4.34, 4.28]],
+];
+
+function matmul(a: number[][], b: number[][]) {
+  return a.map((row) => b[0].map((_, c) => row.reduce((s, x, k) => s + x * b[k][c], 0)));
+}
+
+// Project the model through a known pose onto a 478-point mesh; the remaining points sit at the
+// image centre. Angles follow HeadPose: R = Ry(yaw)·Rx(−pitch)·Rz(−roll) in MediaPipe's frame.
+function projectedMesh(yawDeg: number, pitchDeg: number, rollDeg: number, t: [number, number, number]) {
+  const [y, x, z] = [yawDeg, -pitchDeg, -rollDeg].map((d) => (d * Math.PI) / 180);
+  const Ry = [[Math.cos(y), 0, Math.sin(y)], [0, 1, 0], [-Math.sin(y), 0, Math.cos(y)]];
+  const Rx = [[1, 0, 0], [0, Math.cos(x), -Math.sin(x)], [0, Math.sin(x), Math.cos(x)]];
+  const Rz = [[Math.cos(z), -Math.sin(z), 0], [Math.sin(z), Math.cos(z), 0], [0, 0, 1]];
+  const R = matmul(matmul(Ry, Rx), Rz);
+  const mesh: Point3D[] = Array.from({ length: 478 }, () => ({ x: 0.5, y: 0.5, z: 0 }));
+  for (const [i, p] of MODEL) {
+    const [X, Y, Z] = R.map((row, r) => row[0] * p[0] + row[1] * p[1] + row[2] * p[2] + t[r]);
+    // the camera looks down −z with y up; image y grows downward
+    mesh[i] = { x: 0.5 + (FOCAL * X) / -Z / W, y: 0.5 - (FOCAL * Y) / -Z / H, z: 0 };
+  }
+  return mesh;
+}
+
+describe("getFaceMetrics head pose", () => {
+  it("recovers a known pose from the mesh by PnP", () => {
+    const mesh = projectedMesh(20, -10, 5, [2, -1, -50]);
+    const { head } = getFaceMetrics(mesh, { imageWidth: W, imageHeight: H, focalLength: FOCAL });
+    expect(head.source).toBe("pnp");
+    expect(head.yawDeg).toBeCloseTo(20, 0);
+    expect(head.pitchDeg).toBeCloseTo(-10, 0);
+    expect(head.rollDeg).toBeCloseTo(5, 0);
+    expect(head.translation!.x).toBeCloseTo(2, 0);
+    expect(head.translation!.y).toBeCloseTo(-1, 0);
+    expect(head.translation!.z).toBeCloseTo(-50, 0);
+  });
+
+  it("reads a frontal face as zero rotation", () => {
+    const { head } = getFaceMetrics(projectedMesh(0, 0, 0, [0, 0, -60]), { imageWidth: W, imageHeight: H, focalLength: FOCAL });
+    expect(Math.abs(head.yawDeg)).toBeLessThan(0.5);
+    expect(Math.abs(head.pitchDeg)).toBeLessThan(0.5);
+    expect(Math.abs(head.rollDeg)).toBeLessThan(0.5);
+  });
+
+  it("falls back to the eye heuristic without the image size", () => {
+    const { head } = getFaceMetrics(projectedMesh(20, -10, 5, [2, -1, -50]));
+    expect(head.source).toBe("heuristic");
+  });
+});
@@ -1,3 +1,5 @@
+import { estimateActionUnits, type BlendshapeCategory, type ExpressionResult } from "./actionUnits";
+
 export interface Point2D { x: number; y: number; }
 export interface Point3D extends Point2D { z?: number }
 
@@ -5,10 +7,19 @@ export interface FaceBox {
   minX: number; minY: number; maxX: number; maxY: number; width: number; height: number;
 }
 
+export interface IrisMetrics {
+  center: Point2D;
+  radius: number; // normalized image units
+  // iris centre within the eye opening, -1..1: x from corner to corner (> 0 toward the image
+  // right), y from the corner line to the lids (> 0 up)
+  position: Point2D;
+}
+
 export interface EyeMetrics {
   points: Point3D[];
   center: Point2D;
   openness: number; // 0..1 relative to face height
+  iris: IrisMetrics | null; // needs the 478-point mesh
 }
 
 export interface MouthMetrics {
@@ -17,10 +28,37 @@ export interface MouthMetrics {
   openRatio: number; // MAR-based ratio (vertical/horizontal)
 }
 
+export type HeadPoseSource = "matrix" | "pnp" | "heuristic";
+
+// Angles are in the unmirrored camera image: yaw > 0 turns the nose toward the image right
+// (the subject's left), pitch > 0 lifts it, roll > 0 tilts the head clockwise.
 export interface HeadPose {
   roll: number; // radians (in-plane rotation)
-  yaw: number;  // -1..1 approx (negative = looking left)
-  pitch: number; // -1..1 approx (negative = down)
+  yaw: number;  // -1..1 approx, yawDeg / 90
+  pitch: number; // -1..1 approx, pitchDeg / 90
+  yawDeg: number;
+  pitchDeg: number;
+  rollDeg: number;
+  translation: { x: number; y: number; z: number } | null; // cm, camera space (y up, camera looks down −z)
+  source: HeadPoseSource;
+}
+
+// Gaze in the head pose's sign convention; the eye-in-head angles are added to the head angles
+export interface GazeEstimate {
+  eyeYawDeg: number; // eye-in-head
+  eyePitchDeg: number;
+  yawDeg: number; // head + eye
+  pitchDeg: number;
+  vector: { x: number; y: number; z: number }; // unit, camera space (y up, +z toward the camera)
+  eyes: number; // eyes that contributed, 1 or 2
+}
+
+export interface FaceDistance {
+  distanceCm: number; // camera to the irises
+  irisDiameterPx: number; // mean over the open eyes
+  mmPerPixel: number; // image scale at the face, for size-dependent metrics
+  focalLengthPx: number;
+  calibrated: boolean; // focal length supplied (e.g. from calibrateFocalLength) rather than assumed
 }
 
 export interface FaceMetricsResult {
@@ -28,6 +66,9 @@ export interface FaceMetricsResult {
   eyes: { left: EyeMetrics; right: EyeMetrics };
   mouth: MouthMetrics;
   head: HeadPose;
+  gaze: GazeEstimate | null; // null without iris landmarks or with both eyes closed
+  distance: FaceDistance | null; // needs iris landmarks and the image size
+  expression: ExpressionResult | null; // action units and expressions, needs blendshapes
   jawline: { path: Point2D[] };
 }
 
@@ -84,28 +125,274 @@ function mouthOpenRatio(points: Point3D[], faceH: number) {
   return clamp01((bot - top) / Math.max(1e-6, faceH));
 }
 
+const RAD = 180 / Math.PI;
+
+// Head pose from a rotation (row-major 3x3) in MediaPipe's metric space, decomposed as
+// R = Ry(yaw)·Rx(pitch)·Rz(roll)
+function poseFromRotation(r: number[][], translation: HeadPose["translation"], source: HeadPoseSource): HeadPose {
+  const rx = Math.asin(Math.max(-1, Math.min(1, -r[1][2])));
+  const ry = Math.atan2(r[0][2], r[2][2]);
+  const rz = Math.atan2(r[1][0], r[1][1]);
+  // Rx > 0 lowers the nose and Rz > 0 is counter-clockwise as seen by the camera
+  const yawDeg = ry * RAD, pitchDeg = -rx * RAD, rollDeg = -rz * RAD;
+  return {
+    roll: -rz,
+    yaw: Math.max(-1, Math.min(1, yawDeg / 90)),
+    pitch: Math.max(-1, Math.min(1, pitchDeg / 90)),
+    yawDeg,
+    pitchDeg,
+    rollDeg,
+    translation,
+    source,
+  };
+}
+
+// FaceLandmarker's facial transformation matrix: 4x4, column-major, canonical face model (cm)
+// to camera space
+function poseFromMatrix(data: ArrayLike<number>): HeadPose | null {
+  if (!data || data.length < 16) return null;
+  for (let i = 0; i < 16; i++) if (!Number.isFinite(data[i])) return null;
+  // tolerate a row-major layout: the translation then sits in the last column
+  const rowMajor = Math.hypot(data[12], data[13], data[14]) < 1e-9 && Math.hypot(data[3], data[7], data[11]) > 1e-9;
+  const at = (row: number, col: number) => (rowMajor ? data[row * 4 + col] : data[col * 4 + row]);
+  // strip the scale the face mesh fit may carry
+  const r: number[][] = [[], [], []];
+  for (let c = 0; c < 3; c++) {
+    const n = Math.hypot(at(0, c), at(1, c), at(2, c)) || 1;
+    for (let row = 0; row < 3; row++) r[row][c] = at(row, c) / n;
+  }
+  return poseFromRotation(r, { x: at(0, 3), y: at(1, 3), z: at(2, 3) }, "matrix");
+}
+
+// A few well-spread canonical face model vertices (cm, y up, z toward the camera): nose tip,
+// chin, outer eye corners and mouth corners. Approximate, good to a few degrees.
+const PNP_MODEL: [number, [number, number, number]][] = [
+  [1, [0, -3.41, 5.98]],
+  [152, [0, -9.05, 4.12]],
+  [33, [-4.45, 2.66, 3.17]],
+  [263, [4.45, 2.66, 3.17]],
+  [61, [-2.46, -4.34, 4.28]],
+  [291, [2.46, -4.34, 4.28]],
+];
+
+function invert3(m: number[][]): number[][] | null {
+  const [a, b, c] = m[0], [d, e, f] = m[1], [g, h, i] = m[2];
+  const A = e * i - f * h, B = f * g - d * i, C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+  if (Math.abs(det) < 1e-12) return null;
+  return [
+    [A / det, (c * h - b * i) / det, (b * f - c * e) / det],
+    [B / det, (a * i - c * g) / det, (c * d - a * f) / det],
+    [C / det, (b * g - a * h) / det, (a * e - b * d) / det],
+  ];
+}
+
+function cross(a: number[], b: number[]) {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function normalize(v: number[]) {
+  const n = Math.hypot(v[0], v[1], v[2]) || 1;
+  return v.map((x) => x / n);
+}
+
+// Perspective-n-point by POSIT (DeMenthon & Davis): scaled orthographic pose, refined by
+// re-weighting each point with its depth. Landmarks are normalized image coordinates; the
+// camera is a pinhole with focal length `focal` (px) and the principal point at the centre.
+function poseFromPnP(landmarks: Point3D[], width: number, height: number, focal: number): HeadPose | null {
+  if (!(width > 0 && height > 0 && focal > 0)) return null;
+  // OpenCV-style camera frame (y down, z forward); the model is flipped to match
+  const obj = PNP_MODEL.map(([, p]) => [p[0], -p[1], -p[2]]);
+  const img = PNP_MODEL.map(([i]) => landmarks[i]);
+  if (img.some((p) => !p || !Number.isFinite(p.x) || !Number.isFinite(p.y))) return null;
+  const u = img.map((p) => p.x * width - width / 2);
+  const v = img.map((p) => p.y * height - height / 2);
+
+  const n = obj.length;
+  const A = obj.slice(1).map((p) => [p[0] - obj[0][0], p[1] - obj[0][1], p[2] - obj[0][2]]);
+  const ata = [0, 1, 2].map((r) => [0, 1, 2].map((c) => A.reduce((s, a) => s + a[r] * a[c], 0)));
+  const inv = invert3(ata);
+  if (!inv) return null;
+  // B = (AᵀA)⁻¹Aᵀ, the pseudo-inverse of the model vectors
+  const B = [0, 1, 2].map((r) => A.map((a) => inv[r][0] * a[0] + inv[r][1] * a[1] + inv[r][2] * a[2]));
+
+  const eps = new Array(n - 1).fill(0);
+  let R: number[][] = [];
+  let z0 = 0;
+  for (let iter = 0; iter < 50; iter++) {
+    const xs = eps.map((e, k) => u[k + 1] * (1 + e) - u[0]);
+    const ys = eps.map((e, k) => v[k + 1] * (1 + e) - v[0]);
+    const I = B.map((row) => row.reduce((s, b, k) => s + b * xs[k], 0));
+    const J = B.map((row) => row.reduce((s, b, k) => s + b * ys[k], 0));
+    const sI = Math.hypot(I[0], I[1], I[2]), sJ = Math.hypot(J[0], J[1], J[2]);
+    if (!(sI > 0 && sJ > 0)) return null;
+    const i = normalize(I);
+    const k = normalize(cross(i, J));
+    const j = cross(k, i);
+    R = [i, j, k];
+    z0 = (2 * focal) / (sI + sJ);
+    let change = 0;
+    for (let m = 0; m < n - 1; m++) {
+      const e = (A[m][0] * k[0] + A[m][1] * k[1] + A[m][2] * k[2]) / z0;
+      change = Math.max(change, Math.abs(e - eps[m]));
+      eps[m] = e;
+    }
+    if (change < 1e-6) break;
+  }
+  if (!(z0 > 0)) return null;
+
+  // translation of the model origin rather than of the reference point
+  const ref = [(u[0] * z0) / focal, (v[0] * z0) / focal, z0];
+  const t = [0, 1, 2].map((r) => ref[r] - (R[r][0] * obj[0][0] + R[r][1] * obj[0][1] + R[r][2] * obj[0][2]));
+  // back to MediaPipe's frame: F·R·F and F·t with F = diag(1, −1, −1)
+  const f = [1, -1, -1];
+  const rm = R.map((row, r) => row.map((x, c) => f[r] * x * f[c]));
+  return poseFromRotation(rm, { x: t[0], y: -t[1], z: -t[2] }, "pnp");
+}
+
+// Rough pose from the eye centres within the bounding box, for sparse landmark sets
 function estimateHeadPose(box: FaceBox, leftEye: Point2D, rightEye: Point2D): HeadPose {
   // Roll from eye line
   const dx = rightEye.x - leftEye.x;
   const dy = rightEye.y - leftEye.y;
   const roll = Math.atan2(dy, dx);
 
-  // Yaw from relative eye x positions vs box center
-  const cx = (box.minX + box.maxX) / 2;
+  // Yaw from relative eye x positions: turning right leaves more room on the left
   const leftDist = Math.abs(leftEye.x - box.minX);
   const rightDist = Math.abs(box.maxX - rightEye.x);
-  const yaw = clamp01((rightDist - leftDist) / Math.max(1e-6, box.width)) as number;
+  const yaw = (leftDist - rightDist) / Math.max(1e-6, box.width);
 
   // Pitch from average eye height relative to box center
   const cy = (box.minY + box.maxY) / 2;
   const eyesY = (leftEye.y + rightEye.y) / 2;
-  const pitch = clamp01((cy - eyesY) / Math.max(1e-6, box.height)) as number;
+  const pitch = (cy - eyesY) / Math.max(1e-6, box.height);
 
   // Map yaw/pitch to -1..1 ranges centered
+  const y = Math.max(-1, Math.min(1, yaw * 2));
+  const p = Math.max(-1, Math.min(1, pitch * 2));
   return {
     roll,
-    yaw: Math.max(-1, Math.min(1, yaw * 2)),
-    pitch: Math.max(-1, Math.min(1, pitch * 2)),
+    yaw: y,
+    pitch: p,
+    yawDeg: y * 90,
+    pitchDeg: p * 90,
+    rollDeg: roll * RAD,
+    translation: null,
+    source: "heuristic",
+  };
+}
+
+// Iris landmarks of the 478-point mesh: centre, then four points on the rim. "left" is the
+// eye on the image left (mesh indices 33/133), as for EyeMetrics.
+const IRIS = {
+  left: { center: 468, rim: [469, 470, 471, 472], corners: [33, 133], lids: [159, 145] },
+  right: { center: 473, rim: [474, 475, 476, 477], corners: [362, 263], lids: [386, 374] },
+};
+const EYEBALL_RADIUS = 0.4; // eyeball radius relative to the corner-to-corner eye width
+const CLOSED_EAR = 0.12; // below this the iris is hidden by the lids
+
+// Iris centre relative to the eye corners, in pixel-proportional units (sx, sy: image size)
+function irisMetrics(pts: Point3D[], eye: typeof IRIS.left, sx: number, sy: number): IrisMetrics | null {
+  const c = pts[eye.center];
+  const [a, b] = eye.corners.map((i) => pts[i]);
+  const [top, bot] = eye.lids.map((i) => pts[i]);
+  if (!c || !a || !b || !top || !bot) return null;
+  // eye axis from the image-left corner to the image-right corner
+  const ax = (b.x - a.x) * sx, ay = (b.y - a.y) * sy;
+  const width = Math.hypot(ax, ay);
+  if (width < 1e-9) return null;
+  const ux = ax / width, uy = ay / width;
+  // unit normal pointing up in the image
+  const nx = uy, ny = -ux;
+  const mx = ((a.x + b.x) / 2) * sx, my = ((a.y + b.y) / 2) * sy;
+  const along = (c.x * sx - mx) * ux + (c.y * sy - my) * uy;
+  const across = (c.x * sx - mx) * nx + (c.y * sy - my) * ny;
+  const lids = Math.abs((top.x - bot.x) * sx * nx + (top.y - bot.y) * sy * ny);
+  const rim = eye.rim.map((i) => pts[i]).filter(Boolean);
+  const radius = rim.length ? rim.reduce((s, p) => s + Math.hypot(p.x - c.x, p.y - c.y), 0) / rim.length : 0;
+  return {
+    center: { x: c.x, y: c.y },
+    radius,
+    position: {
+      x: Math.max(-1, Math.min(1, along / (width / 2))),
+      y: Math.max(-1, Math.min(1, across / Math.max(1e-9, lids / 2))),
+    },
+  };
+}
+
+// Human iris diameter varies little between adults (11.7 ± 0.5 mm)
+export const IRIS_DIAMETER_MM = 11.7;
+
+// Iris diameter (px) of one eye: the larger of the horizontal and vertical rim spans, as turning
+// the eye foreshortens only one of them. Null when the lids nearly cover the iris.
+function irisDiameterPx(pts: Point3D[], eye: typeof IRIS.left, sx: number, sy: number): number | null {
+  const rim = eye.rim.map((i) => pts[i]);
+  const [a, b] = eye.corners.map((i) => pts[i]);
+  const [top, bot] = eye.lids.map((i) => pts[i]);
+  if (rim.some((p) => !p) || !a || !b || !top || !bot) return null;
+  const d = (p: Point3D, q: Point3D) => Math.hypot((p.x - q.x) * sx, (p.y - q.y) * sy);
+  if (d(top, bot) < CLOSED_EAR * d(a, b)) return null;
+  const diameter = Math.max(d(rim[0], rim[2]), d(rim[1], rim[3]));
+  return diameter > 0 ? diameter : null;
+}
+
+// Camera-to-face distance by similar triangles: distance = f · 11.7 mm / iris diameter (px).
+// Without a calibrated focal length the default assumes a ~53° horizontal field of view
+// (f = image width), typical of webcams; expect ±20% until calibrated.
+export function estimateFaceDistance(
+  landmarks: Point3D[],
+  opts: { imageWidth: number; imageHeight: number; focalLength?: number }
+): FaceDistance | null {
+  const { imageWidth: w, imageHeight: h } = opts;
+  if (!landmarks || landmarks.length < 478 || !(w > 0 && h > 0)) return null;
+  const diameters = [IRIS.left, IRIS.right]
+    .map((eye) => irisDiameterPx(landmarks, eye, w, h))
+    .filter((d): d is number => d != null);
+  if (!diameters.length) return null;
+  const irisPx = diameters.reduce((a, b) => a + b, 0) / diameters.length;
+  const focalLengthPx = opts.focalLength ?? w;
+  return {
+    distanceCm: (focalLengthPx * IRIS_DIAMETER_MM) / irisPx / 10,
+    irisDiameterPx: irisPx,
+    mmPerPixel: IRIS_DIAMETER_MM / irisPx,
+    focalLengthPx,
+    calibrated: opts.focalLength != null,
+  };
+}
+
+// Focal length (px) from an iris diameter measured with the face at a known distance
+export function calibrateFocalLength(irisDiameterPx: number, distanceCm: number): number | null {
+  if (!(irisDiameterPx > 0 && distanceCm > 0)) return null;
+  return (irisDiameterPx * distanceCm * 10) / IRIS_DIAMETER_MM;
+}
+
+// Eye-in-head rotation from the iris offset on a spherical eyeball, plus the head pose
+function estimateGaze(pts: Point3D[], eyes: { iris: IrisMetrics | null; ear: number; eye: typeof IRIS.left }[], head: HeadPose, sx: number, sy: number): GazeEstimate | null {
+  let yaw = 0, pitch = 0, n = 0;
+  for (const e of eyes) {
+    if (!e.iris || e.ear < CLOSED_EAR) continue;
+    const [a, b] = e.eye.corners.map((i) => pts[i]);
+    const width = Math.hypot((b.x - a.x) * sx, (b.y - a.y) * sy);
+    const [top, bot] = e.eye.lids.map((i) => pts[i]);
+    const lids = Math.hypot((top.x - bot.x) * sx, (top.y - bot.y) * sy);
+    const r = EYEBALL_RADIUS * width;
+    // back from the normalized position to an offset, then to an angle on the eyeball
+    const dx = (e.iris.position.x * width) / 2, dy = (e.iris.position.y * lids) / 2;
+    yaw += Math.asin(Math.max(-1, Math.min(1, dx / r)));
+    pitch += Math.asin(Math.max(-1, Math.min(1, dy / r)));
+    n++;
+  }
+  if (!n) return null;
+  const eyeYawDeg = (yaw / n) * RAD, eyePitchDeg = (pitch / n) * RAD;
+  const yawDeg = head.yawDeg + eyeYawDeg, pitchDeg = head.pitchDeg + eyePitchDeg;
+  const y = yawDeg / RAD, p = pitchDeg / RAD;
+  return {
+    eyeYawDeg,
+    eyePitchDeg,
+    yawDeg,
+    pitchDeg,
+    vector: { x: Math.cos(p) * Math.sin(y), y: Math.sin(p), z: Math.cos(p) * Math.cos(y) },
+    eyes: n,
   };
 }
 
@@ -135,14 +422,29 @@ function lowerJawPath(pts: Point3D[], box: FaceBox): Point2D[] {
   return sorted.map(p => ({ x: p.x, y: p.y }));
 }
 
-export function getFaceMetrics(landmarks: Point3D[]): FaceMetricsResult {
+// Head pose comes from FaceLandmarker's transformation matrix when given, else from a PnP
+// solve on canonical mesh points (needs the image size), else from the eye heuristic. Gaze
+// needs the 478-point mesh with iris landmarks, action units need FaceLandmarker's blendshapes.
+export function getFaceMetrics(
+  landmarks: Point3D[],
+  opts?: {
+    transformMatrix?: ArrayLike<number> | null; // FaceLandmarker facialTransformationMatrixes[i].data
+    imageWidth?: number; // px, for the PnP fallback
+    imageHeight?: number;
+    focalLength?: number; // px, for PnP and the distance estimate, default imageWidth
+    blendshapes?: BlendshapeCategory[] | null; // FaceLandmarker faceBlendshapes[i].categories
+  }
+): FaceMetricsResult {
   if (!landmarks || landmarks.length === 0) {
     const emptyBox: FaceBox = { minX:0, minY:0, maxX:0, maxY:0, width:0, height:0 };
     return {
       box: emptyBox,
-      eyes: { left: { points: [], center: { x:0, y:0 }, openness: 0 }, right: { points: [], center: { x:0, y:0 }, openness: 0 } },
+      eyes: { left: { points: [], center: { x:0, y:0 }, openness: 0, iris: null }, right: { points: [], center: { x:0, y:0 }, openness: 0, iris: null } },
       mouth: { points: [], center: { x:0, y:0 }, openRatio: 0 },
-      head: { roll: 0, yaw: 0, pitch: 0 },
+      head: { roll: 0, yaw: 0, pitch: 0, yawDeg: 0, pitchDeg: 0, rollDeg: 0, translation: null, source: "heuristic" },
+      gaze: null,
+      distance: null,
+      expression: null,
       jawline: { path: [] },
     };
   }
@@ -199,18 +501,38 @@ export function getFaceMetrics(landmarks: Point3D[]): FaceMetricsResult {
   const rightCenter = mean(rightEyePts);
   const mouthCenter = mean(mouthPts);
 
-  const head = estimateHeadPose(box, leftCenter, rightCenter);
+  const width = opts?.imageWidth ?? 0, height = opts?.imageHeight ?? 0;
+  const head =
+    (opts?.transformMatrix ? poseFromMatrix(opts.transformMatrix) : null) ??
+    (hasMesh ? poseFromPnP(landmarks, width, height, opts?.focalLength ?? width) : null) ??
+    estimateHeadPose(box, leftCenter, rightCenter);
+
+  // iris positions are measured in pixel proportions when the image size is known
+  const sx = width || 1, sy = height || 1;
+  const hasIris = landmarks.length >= 478;
+  const leftIris = hasIris ? irisMetrics(landmarks, IRIS.left, sx, sy) : null;
+  const rightIris = hasIris ? irisMetrics(landmarks, IRIS.right, sx, sy) : null;
+  const gaze = hasIris
+    ? estimateGaze(landmarks, [
+        { iris: leftIris, ear: leftOpen, eye: IRIS.left },
+        { iris: rightIris, ear: rightOpen, eye: IRIS.right },
+      ], head, sx, sy)
+    : null;
+  const distance = width > 0 && height > 0 ? estimateFaceDistance(landmarks, { imageWidth: width, imageHeight: height, focalLength: opts?.focalLength }) : null;
 
   const jaw = lowerJawPath(landmarks, box);
 
   return {
     box,
     eyes: {
-      left: { points: leftEyePts, center: leftCenter, openness: leftOpen },
-      right: { points: rightEyePts, center: rightCenter, openness: rightOpen },
+      left: { points: leftEyePts, center: leftCenter, openness: leftOpen, iris: leftIris },
+      right: { points: rightEyePts, center: rightCenter, openness: rightOpen, iris: rightIris },
     },
     mouth: { points: mouthPts, center: mouthCenter, openRatio: mar },
     head,
+    gaze,
+    distance,
+    expression: estimateActionUnits(opts?.blendshapes),
     jawline: { path: jaw },
   };
 }
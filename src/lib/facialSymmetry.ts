@@ -0,0 +1,254 @@
+import { estimateSimilarity2D } from "./affine";
+import { getFaceMetrics, type FaceMetricsResult, type Point2D, type Point3D } from "./faceMetrics";
+
+// SCREENING AID. Asymmetry of the 468-point mesh mirrored across its own midline, and
+// left/right movement during prompted expressions graded on a House–Brackmann-like scale.
+// It is not a clinical grading: the scale's criteria are approximated by movement ratios.
+
+export type SymmetryRegion = "brows" | "eyes" | "mouth" | "nasolabial";
+export type SymmetryExpression = "rest" | "smile" | "raiseBrows" | "closeEyes";
+export type FaceSide = "left" | "right"; // as seen in the image, like EyeMetrics
+
+// Mirrored landmark pairs, image-left index first
+const PAIRS: Record<SymmetryRegion, [number, number][]> = {
+  brows: [[70, 300], [63, 293], [105, 334], [66, 296], [107, 336]],
+  eyes: [[33, 263], [133, 362], [159, 386], [145, 374], [160, 387], [144, 373], [158, 385], [153, 380]],
+  mouth: [[61, 291], [40, 270], [91, 321], [37, 267], [84, 314]],
+  nasolabial: [[129, 358], [203, 423], [206, 426], [216, 436], [92, 322]],
+};
+const REGIONS = Object.keys(PAIRS) as SymmetryRegion[];
+// Points on the facial midline, forehead to chin
+const MIDLINE = [10, 151, 9, 8, 168, 6, 197, 195, 5, 4, 1, 2, 164, 0, 13, 14, 17, 18, 200, 199, 175, 152];
+// Region each prompted expression exercises
+const EXPRESSION_REGION: Record<Exclude<SymmetryExpression, "rest">, SymmetryRegion> = {
+  smile: "mouth",
+  raiseBrows: "brows",
+  closeEyes: "eyes",
+};
+
+export interface RegionAsymmetry {
+  region: SymmetryRegion;
+  score: number; // mean distance between a point and its mirrored partner, % of eye width
+  vertical: number; // signed height difference along the midline, %; > 0: image-left side lower
+}
+
+export interface SymmetrySnapshot {
+  expression: SymmetryExpression;
+  points: Point2D[]; // mesh in the normalized face frame (outer eye corners at (−0.5, 0) and (0.5, 0))
+  eyeOpenness: Record<FaceSide, number>; // EAR
+  regions: Record<SymmetryRegion, RegionAsymmetry>;
+  overall: number; // mean of the region scores
+  midlineTiltDeg: number; // fitted midline vs. the perpendicular to the eye line
+  reliable: boolean;
+  reasons: string[];
+  frames: number;
+}
+
+export interface ExpressionMovement {
+  expression: Exclude<SymmetryExpression, "rest">;
+  region: SymmetryRegion;
+  left: number; // movement from rest, % of eye width (eye closure: fraction closed, 0..1)
+  right: number;
+  ratio: number | null; // weaker / stronger side; null when neither side moved
+}
+
+export interface SymmetryGrade {
+  grade: 1 | 2 | 3 | 4 | 5 | 6 | null;
+  label: string;
+  weakerSide: FaceSide | null;
+  restAsymmetry: number;
+  movements: ExpressionMovement[];
+  reasons: string[];
+}
+
+export const SYMMETRY_GRADE_LABELS = [
+  "Normal",
+  "Slight dysfunction",
+  "Moderate dysfunction",
+  "Moderately severe dysfunction",
+  "Severe dysfunction",
+  "Total paralysis",
+];
+
+const MAX_YAW_DEG = 10; // beyond this, perspective alone makes the face look asymmetric
+const MAX_PITCH_DEG = 15;
+const MIN_MOVEMENT = 2; // % of eye width; below this on both sides the expression was not made
+
+// Least-squares midline x = a + b·y through the midline points and the pair midpoints;
+// returns a point on it and its unit direction
+function fitMidline(points: Point2D[]) {
+  const ref: Point2D[] = MIDLINE.map((i) => points[i]);
+  for (const region of REGIONS) {
+    for (const [l, r] of PAIRS[region]) ref.push({ x: (points[l].x + points[r].x) / 2, y: (points[l].y + points[r].y) / 2 });
+  }
+  const n = ref.length;
+  const my = ref.reduce((s, p) => s + p.y, 0) / n;
+  const mx = ref.reduce((s, p) => s + p.x, 0) / n;
+  let sxy = 0, syy = 0;
+  for (const p of ref) { sxy += (p.x - mx) * (p.y - my); syy += (p.y - my) ** 2; }
+  const b = syy > 0 ? sxy / syy : 0;
+  const len = Math.hypot(b, 1);
+  return { origin: { x: mx, y: my }, dir: { x: b / len, y: 1 / len } };
+}
+
+function reflect(p: Point2D, line: ReturnType<typeof fitMidline>): Point2D {
+  const { origin: o, dir: d } = line;
+  const t = (p.x - o.x) * d.x + (p.y - o.y) * d.y;
+  return { x: 2 * (o.x + d.x * t) - p.x, y: 2 * (o.y + d.y * t) - p.y };
+}
+
+function scoreRegions(points: Point2D[]) {
+  const line = fitMidline(points);
+  const regions = {} as Record<SymmetryRegion, RegionAsymmetry>;
+  for (const region of REGIONS) {
+    let score = 0, vertical = 0;
+    for (const [l, r] of PAIRS[region]) {
+      const m = reflect(points[r], line);
+      score += Math.hypot(points[l].x - m.x, points[l].y - m.y);
+      vertical += (points[l].x - m.x) * line.dir.x + (points[l].y - m.y) * line.dir.y;
+    }
+    const k = PAIRS[region].length;
+    regions[region] = { region, score: (100 * score) / k, vertical: (100 * vertical) / k };
+  }
+  const overall = REGIONS.reduce((s, r) => s + regions[r].score, 0) / REGIONS.length;
+  return { regions, overall, midlineTiltDeg: (Math.atan2(line.dir.x, line.dir.y) * 180) / Math.PI };
+}
+
+// Symmetry of one frame. The mesh is first brought into a face frame with estimateSimilarity2D
+// (outer eye corners on the x axis, one unit apart), so scores are relative to the eye width
+// and independent of roll and distance. Null without the full mesh.
+export function measureSymmetry(
+  landmarks: Point3D[],
+  opts: {
+    imageWidth: number;
+    imageHeight: number;
+    expression?: SymmetryExpression;
+    metrics?: FaceMetricsResult; // the frame's metrics when already computed (head pose, eye openness)
+  }
+): SymmetrySnapshot | null {
+  const { imageWidth: w, imageHeight: h } = opts;
+  if (!landmarks || landmarks.length < 468 || !(w > 0 && h > 0)) return null;
+  const metrics = opts.metrics ?? getFaceMetrics(landmarks, { imageWidth: w, imageHeight: h });
+
+  const px = (p: Point3D) => ({ x: p.x * w, y: p.y * h });
+  const L = px(landmarks[33]), R = px(landmarks[263]);
+  if (Math.hypot(R.x - L.x, R.y - L.y) < 1e-6) return null;
+  // third anchor perpendicular to the eye line keeps the fitted transform a similarity
+  const M = { x: (L.x + R.x) / 2 - (R.y - L.y), y: (L.y + R.y) / 2 + (R.x - L.x) };
+  const T = estimateSimilarity2D([L, R, M], [{ x: -0.5, y: 0 }, { x: 0.5, y: 0 }, { x: 0, y: 1 }]);
+  const points = landmarks.slice(0, 468).map((p) => {
+    const q = px(p);
+    return { x: T[0] * q.x + T[1] * q.y + T[4], y: T[2] * q.x + T[3] * q.y + T[5] };
+  });
+
+  const reasons: string[] = [];
+  if (Math.abs(metrics.head.yawDeg) > MAX_YAW_DEG) reasons.push(`Head turned ${metrics.head.yawDeg.toFixed(0)}°, face the camera`);
+  if (Math.abs(metrics.head.pitchDeg) > MAX_PITCH_DEG) reasons.push(`Head tilted ${metrics.head.pitchDeg.toFixed(0)}° up/down`);
+  return {
+    expression: opts.expression ?? "rest",
+    points,
+    eyeOpenness: { left: metrics.eyes.left.openness, right: metrics.eyes.right.openness },
+    ...scoreRegions(points),
+    reliable: reasons.length === 0,
+    reasons,
+    frames: 1,
+  };
+}
+
+// Average of several frames of the same expression, which suppresses landmark jitter
+export function combineSymmetry(snapshots: SymmetrySnapshot[]): SymmetrySnapshot | null {
+  if (!snapshots.length) return null;
+  const n = snapshots.length;
+  const points = snapshots[0].points.map((_, i) => ({
+    x: snapshots.reduce((s, f) => s + f.points[i].x, 0) / n,
+    y: snapshots.reduce((s, f) => s + f.points[i].y, 0) / n,
+  }));
+  const unreliable = snapshots.filter((f) => !f.reliable).length;
+  const reasons = [...new Set(snapshots.flatMap((f) => f.reasons))];
+  return {
+    expression: snapshots[0].expression,
+    points,
+    eyeOpenness: {
+      left: snapshots.reduce((s, f) => s + f.eyeOpenness.left, 0) / n,
+      right: snapshots.reduce((s, f) => s + f.eyeOpenness.right, 0) / n,
+    },
+    ...scoreRegions(points),
+    // a few off-pose frames are tolerated
+    reliable: unreliable <= 0.2 * n,
+    reasons,
+    frames: n,
+  };
+}
+
+// Left/right movement of the exercised region between rest and an expression
+function expressionMovement(rest: SymmetrySnapshot, expr: SymmetrySnapshot): ExpressionMovement | null {
+  if (expr.expression === "rest") return null;
+  const region = EXPRESSION_REGION[expr.expression];
+  let left: number, right: number, threshold: number;
+  if (expr.expression === "closeEyes") {
+    // fraction of the resting opening that was closed
+    const closed = (side: FaceSide) =>
+      rest.eyeOpenness[side] > 0 ? Math.max(0, Math.min(1, 1 - expr.eyeOpenness[side] / rest.eyeOpenness[side])) : 0;
+    left = closed("left");
+    right = closed("right");
+    threshold = 0.1;
+  } else {
+    const moved = (side: 0 | 1) =>
+      (100 * PAIRS[region].reduce((s, pair) => {
+        const a = rest.points[pair[side]], b = expr.points[pair[side]];
+        return s + Math.hypot(b.x - a.x, b.y - a.y);
+      }, 0)) / PAIRS[region].length;
+    left = moved(0);
+    right = moved(1);
+    threshold = MIN_MOVEMENT;
+  }
+  const ratio = Math.max(left, right) < threshold ? null : Math.min(left, right) / Math.max(left, right);
+  return { expression: expr.expression, region, left, right, ratio };
+}
+
+// House–Brackmann-like grade from the weakest movement ratio, rest asymmetry and eye closure:
+// I ≥ 0.9 and symmetric at rest, II ≥ 0.75, III ≥ 0.5 with complete eye closure, IV ≥ 0.25,
+// V any movement, VI none
+export function gradeSymmetry(captures: Partial<Record<SymmetryExpression, SymmetrySnapshot>>): SymmetryGrade {
+  const rest = captures.rest;
+  const none = (reasons: string[]): SymmetryGrade => ({ grade: null, label: "—", weakerSide: null, restAsymmetry: rest?.overall ?? 0, movements: [], reasons });
+  if (!rest) return none(["Capture the face at rest first"]);
+
+  const reasons = [...rest.reasons];
+  const movements: ExpressionMovement[] = [];
+  for (const expression of ["smile", "raiseBrows", "closeEyes"] as const) {
+    const snap = captures[expression];
+    if (!snap) continue;
+    if (!snap.reliable) reasons.push(...snap.reasons);
+    const m = expressionMovement(rest, snap);
+    if (!m) continue;
+    if (m.ratio == null) reasons.push(`No movement during ${expression === "raiseBrows" ? "brow raise" : expression === "closeEyes" ? "eye closure" : "smile"}`);
+    movements.push(m);
+  }
+  const measured = movements.filter((m) => m.ratio != null);
+  if (!measured.length) return { ...none([...new Set(reasons), "No prompted expression measured"]), movements };
+
+  const worst = Math.min(...measured.map((m) => m.ratio!));
+  // eye closure is complete when the weaker eye closes most of the way
+  const eyes = movements.find((m) => m.expression === "closeEyes");
+  const eyeClosed = eyes ? Math.min(eyes.left, eyes.right) >= 0.8 : true;
+  let grade: SymmetryGrade["grade"];
+  if (worst >= 0.9 && rest.overall < 5) grade = 1;
+  else if (worst >= 0.75) grade = 2;
+  else if (worst >= 0.5 && eyeClosed) grade = 3;
+  else if (worst >= 0.25) grade = 4;
+  else if (worst >= 0.05) grade = 5;
+  else grade = 6;
+
+  // the side that moved less in most expressions
+  const weakerLeft = measured.filter((m) => m.left < m.right).length;
+  const weakerSide: FaceSide | null = grade === 1 ? null : weakerLeft * 2 >= measured.length ? "left" : "right";
+  return {
+    grade,
+    label: SYMMETRY_GRADE_LABELS[grade - 1],
+    weakerSide,
+    restAsymmetry: rest.overall,
+    movements,
+    reasons: [...new Set(reasons)],
+  };
+}
@@ -0,0 +1,85 @@
+export interface ScreenPoint { x: number; y: number } // 0..1 of the viewport
+
+export interface GazeCalibrationSample {
+  target: number; // index into the calibration targets
+  point: ScreenPoint;
+  yawDeg: number;
+  pitchDeg: number;
+}
+
+export interface GazeCalibration {
+  model: "affine" | "quadratic";
+  coefX: number[];
+  coefY: number[];
+  errorRms: number; // fit residual at the targets, viewport units
+  targets: number;
+}
+
+// 3x3 grid, inset from the edges where the screen bezel is hard to look at
+export const GAZE_CALIBRATION_TARGETS: ScreenPoint[] = [0.1, 0.5, 0.9].flatMap((y) => [0.1, 0.5, 0.9].map((x) => ({ x, y })));
+
+function median(x: number[]) {
+  const s = [...x].sort((a, b) => a - b);
+  const m = s.length >> 1;
+  return s.length % 2 ? s[m] : 0.5 * (s[m - 1] + s[m]);
+}
+
+function features(yaw: number, pitch: number, model: GazeCalibration["model"]) {
+  return model === "quadratic" ? [1, yaw, pitch, yaw * pitch, yaw * yaw, pitch * pitch] : [1, yaw, pitch];
+}
+
+// Least squares by the normal equations with a small ridge, Gaussian elimination
+function leastSquares(rows: number[][], y: number[]): number[] | null {
+  const p = rows[0].length;
+  const M = Array.from({ length: p }, (_, r) => {
+    const row = Array.from({ length: p }, (_, c) => rows.reduce((s, x) => s + x[r] * x[c], 0) + (r === c ? 1e-6 : 0));
+    row.push(rows.reduce((s, x, i) => s + x[r] * y[i], 0));
+    return row;
+  });
+  for (let col = 0; col < p; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < p; r++) if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    if (Math.abs(M[pivot][col]) < 1e-12) return null;
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+    for (let r = 0; r < p; r++) {
+      if (r === col) continue;
+      const f = M[r][col] / M[col][col];
+      for (let c = col; c <= p; c++) M[r][c] -= f * M[col][c];
+    }
+  }
+  return M.map((row, r) => row[p] / row[r]);
+}
+
+// Map head-corrected gaze angles to the screen. Samples are summarized per target by their
+// median, which drops saccades and blinks; nine targets fit a quadratic surface, three to
+// eight an affine one. Null when too few targets were fixated.
+export function fitGazeCalibration(samples: GazeCalibrationSample[]): GazeCalibration | null {
+  const byTarget = new Map<number, GazeCalibrationSample[]>();
+  for (const s of samples) byTarget.set(s.target, [...(byTarget.get(s.target) ?? []), s]);
+  const points = [...byTarget.values()]
+    .filter((g) => g.length >= 5)
+    .map((g) => ({ point: g[0].point, yaw: median(g.map((s) => s.yawDeg)), pitch: median(g.map((s) => s.pitchDeg)) }));
+  if (points.length < 3) return null;
+
+  const model: GazeCalibration["model"] = points.length >= 9 ? "quadratic" : "affine";
+  const rows = points.map((p) => features(p.yaw, p.pitch, model));
+  const coefX = leastSquares(rows, points.map((p) => p.point.x));
+  const coefY = leastSquares(rows, points.map((p) => p.point.y));
+  if (!coefX || !coefY) return null;
+
+  const cal: GazeCalibration = { model, coefX, coefY, errorRms: 0, targets: points.length };
+  let err = 0;
+  for (const p of points) {
+    const q = mapGazeToScreen(cal, { yawDeg: p.yaw, pitchDeg: p.pitch });
+    err += (q.x - p.point.x) ** 2 + (q.y - p.point.y) ** 2;
+  }
+  cal.errorRms = Math.sqrt(err / points.length);
+  return cal;
+}
+
+// Screen point for a gaze estimate (or any { yawDeg, pitchDeg }); may fall outside 0..1
+export function mapGazeToScreen(cal: GazeCalibration, gaze: { yawDeg: number; pitchDeg: number }): ScreenPoint {
+  const f = features(gaze.yawDeg, gaze.pitchDeg, cal.model);
+  const dot = (c: number[]) => c.reduce((s, v, i) => s + v * f[i], 0);
+  return { x: dot(cal.coefX), y: dot(cal.coefY) };
+}
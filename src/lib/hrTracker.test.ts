@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { createHeartRateTracker } from "./hrTracker";
+import type { PowerSpectrum } from "./spectrum";
+
+// Synthetic spectrum, 0–5 Hz in 0.01 Hz bins: a small noise floor plus Gaussian peaks
+function spectrum(peaks: [bpm: number, power: number][]): PowerSpectrum {
+  const freqs: number[] = [];
+  const power: number[] = [];
+  for (let k = 0; k <= 500; k++) {
+    const f = k * 0.01;
+    let p = 1e-3;
+    for (const [bpm, a] of peaks) p += a * Math.exp(-0.5 * ((f - bpm / 60) / 0.03) ** 2);
+    freqs.push(f);
+    power.push(p);
+  }
+  return { freqs, power };
+}
+
+describe("createHeartRateTracker", () => {
+  it("locks onto a steady pulse and narrows its uncertainty", () => {
+    const tracker = createHeartRateTracker();
+    let out = tracker.update(spectrum([[72, 1]]), 0);
+    const first = out.uncertainty!;
+    for (let t = 1000; t <= 10000; t += 1000) out = tracker.update(spectrum([[72, 1]]), t);
+    expect(out.bpm).toBeCloseTo(72, 0);
+    expect(out.uncertainty!).toBeLessThan(first);
+  });
+
+  it("prefers the fundamental when the second harmonic is stronger", () => {
+    const tracker = createHeartRateTracker();
+    const out = tracker.update(spectrum([[66, 0.6], [132, 1]]), 0);
+    expect(out.bpm).toBeCloseTo(66, 0);
+  });
+
+  it("gates a single jump and re-acquires when the new rate persists", () => {
+    const tracker = createHeartRateTracker();
+    let t = 0;
+    for (; t <= 10000; t += 1000) tracker.update(spectrum([[72, 1]]), t);
+
+    const jump = tracker.update(spectrum([[120, 1]]), t);
+    expect(jump.rejected).toBe(true);
+    expect(jump.bpm).toBeCloseTo(72, 0);
+
+    let out = jump;
+    for (let i = 0; i < 3; i++) out = tracker.update(spectrum([[120, 1]]), (t += 1000));
+    expect(out.rejected).toBe(false);
+    expect(out.bpm).toBeCloseTo(120, 0);
+  });
+
+  it("only predicts without a spectrum, widening the uncertainty", () => {
+    const tracker = createHeartRateTracker();
+    const locked = tracker.update(spectrum([[80, 1]]), 0);
+    const out = tracker.update(null, 5000);
+    expect(out.bpm).toBe(locked.bpm);
+    expect(out.measurement).toBeNull();
+    expect(out.uncertainty!).toBeGreaterThan(locked.uncertainty!);
+  });
+});
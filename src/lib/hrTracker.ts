@@ -0,0 +1,168 @@
+import type { PowerSpectrum } from "./spectrum";
+
+export interface HRCandidate {
+  bpm: number;
+  relPower: number; // share of in-band power, 0..1
+  persistence: number; // recent windows with a candidate within the match tolerance
+  harmonicOf: number | null; // bpm of the fundamental when this peak looks like its 2nd harmonic
+  score: number;
+}
+
+export interface HRTrackerOutput {
+  bpm: number | null; // smoothed estimate
+  uncertainty: number | null; // 1-sigma, bpm
+  measurement: number | null; // candidate chosen this window
+  candidates: HRCandidate[];
+  harmonicCorrected: boolean; // chosen candidate was moved to the fundamental
+  rejected: boolean; // measurement gated out as implausible jump
+}
+
+interface TrackerState {
+  x: number | null; // bpm
+  P: number; // variance, bpm²
+  lastT: number | null; // ms
+  history: { t: number; bpms: number[] }[];
+  outliers: { t: number; bpm: number }[];
+}
+
+export function createHeartRateTracker(opts?: {
+  minBpm?: number;
+  maxBpm?: number;
+  maxCandidates?: number;
+  historyMs?: number; // how long candidate peaks are remembered
+  processNoise?: number; // bpm² per second of random-walk drift
+  measurementNoise?: number; // bpm² for a peak holding all in-band power
+  jumpPenalty?: number; // weight of the distance-to-prediction term
+}) {
+  const minBpm = opts?.minBpm ?? 42;
+  const maxBpm = opts?.maxBpm ?? 180;
+  const maxCandidates = opts?.maxCandidates ?? 5;
+  const historyMs = opts?.historyMs ?? 10000;
+  const q = opts?.processNoise ?? 4;
+  const r0 = opts?.measurementNoise ?? 4;
+  const jumpPenalty = opts?.jumpPenalty ?? 1;
+  const matchTol = 5; // bpm
+
+  const state: TrackerState = { x: null, P: 0, lastT: null, history: [], outliers: [] };
+
+  function powerAt(spec: PowerSpectrum, hz: number) {
+    const df = spec.freqs[1] - spec.freqs[0];
+    const k = Math.round(hz / df);
+    if (k < 1 || k >= spec.power.length - 1) return 0;
+    return Math.max(spec.power[k - 1], spec.power[k], spec.power[k + 1]);
+  }
+
+  function findCandidates(spec: PowerSpectrum, now: number): HRCandidate[] {
+    const { freqs, power } = spec;
+    if (freqs.length < 3) return [];
+    const df = freqs[1] - freqs[0];
+    const lo = Math.max(1, Math.floor(minBpm / 60 / df));
+    const hi = Math.min(power.length - 2, Math.ceil(maxBpm / 60 / df));
+    let total = 0;
+    for (let k = lo; k <= hi; k++) total += power[k];
+    if (total <= 0) return [];
+
+    const peaks: { bpm: number; p: number }[] = [];
+    for (let k = lo; k <= hi; k++) {
+      if (power[k] > power[k - 1] && power[k] >= power[k + 1]) peaks.push({ bpm: freqs[k] * 60, p: power[k] });
+    }
+    peaks.sort((a, b) => b.p - a.p);
+    const top = peaks.slice(0, maxCandidates);
+
+    const cands: HRCandidate[] = [];
+    for (const pk of top) {
+      // a strong subharmonic within range means this peak is likely the 2nd harmonic
+      const half = pk.bpm / 2;
+      const halfP = half >= minBpm ? powerAt(spec, half / 60) : 0;
+      const harmonicOf = halfP >= 0.35 * pk.p ? half : null;
+      // a matching 2nd harmonic supports this peak as a fundamental
+      const dblP = powerAt(spec, (pk.bpm * 2) / 60);
+      const support = Math.min(1, dblP / pk.p);
+      const persistence = state.history.filter((h) => now - h.t <= historyMs && h.bpms.some((b) => Math.abs(b - pk.bpm) <= matchTol)).length;
+      const relPower = pk.p / total;
+      let score = Math.log(Math.max(1e-6, relPower)) + 0.5 * support + 0.3 * Math.log1p(persistence);
+      if (harmonicOf != null) score -= 1;
+      if (state.x != null) {
+        const sd = Math.sqrt(state.P + r0);
+        const z = (pk.bpm - state.x) / Math.max(1, sd);
+        score -= 0.5 * jumpPenalty * z * z;
+      }
+      cands.push({ bpm: pk.bpm, relPower, persistence, harmonicOf, score });
+    }
+    cands.sort((a, b) => b.score - a.score);
+    return cands;
+  }
+
+  function output(extra: Partial<HRTrackerOutput>): HRTrackerOutput {
+    return {
+      bpm: state.x,
+      uncertainty: state.x != null ? Math.sqrt(state.P) : null,
+      measurement: null,
+      candidates: [],
+      harmonicCorrected: false,
+      rejected: false,
+      ...extra,
+    };
+  }
+
+  return {
+    update(spectrum: PowerSpectrum | null, nowMs: number): HRTrackerOutput {
+      const now = nowMs;
+      // predict
+      if (state.x != null && state.lastT != null) state.P += q * Math.max(0, (now - state.lastT) / 1000);
+      state.lastT = now;
+      state.history = state.history.filter((h) => now - h.t <= historyMs);
+      state.outliers = state.outliers.filter((o) => now - o.t <= historyMs);
+
+      if (!spectrum) return output({});
+      const candidates = findCandidates(spectrum, now);
+      state.history.push({ t: now, bpms: candidates.map((c) => c.bpm) });
+      if (!candidates.length) return output({ candidates });
+
+      const best = candidates[0];
+      // move to the fundamental when the chosen peak is a harmonic and the fundamental is near the track
+      let z = best.bpm;
+      let harmonicCorrected = false;
+      if (best.harmonicOf != null && (state.x == null || Math.abs(best.harmonicOf - state.x) < Math.abs(best.bpm - state.x))) {
+        z = best.harmonicOf;
+        harmonicCorrected = true;
+      }
+      const R = r0 / Math.max(0.05, best.relPower);
+
+      if (state.x == null) {
+        state.x = z;
+        state.P = R;
+        return output({ measurement: z, candidates, harmonicCorrected });
+      }
+
+      // gate implausible jumps; re-acquire if the outliers agree with each other for a while
+      const innov = z - state.x;
+      const S = state.P + R;
+      if (innov * innov > 16 * S) {
+        state.outliers.push({ t: now, bpm: z });
+        const agreeing = state.outliers.filter((o) => Math.abs(o.bpm - z) <= matchTol);
+        if (agreeing.length >= 3) {
+          state.x = z;
+          state.P = R;
+          state.outliers = [];
+          return output({ measurement: z, candidates, harmonicCorrected });
+        }
+        return output({ measurement: z, candidates, harmonicCorrected, rejected: true });
+      }
+
+      // Kalman update (random-walk model)
+      const K = state.P / S;
+      state.x += K * innov;
+      state.P *= 1 - K;
+      state.outliers = [];
+      return output({ measurement: z, candidates, harmonicCorrected });
+    },
+    reset() {
+      state.x = null;
+      state.P = 0;
+      state.lastT = null;
+      state.history = [];
+      state.outliers = [];
+    },
+  };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { correctIBIs, detectBeatArtifacts } from "./ibiCorrection";
+
+// 120 clean intervals around 800 ms: slow respiratory variation plus deterministic jitter
+function cleanIBIs(n = 120) {
+  return Array.from({ length: n }, (_, i) => 800 + 25 * Math.sin((2 * Math.PI * i) / 4.5) + 8 * Math.sin(i * 12.9898));
+}
+
+describe("detectBeatArtifacts", () => {
+  it("finds nothing in a clean series", () => {
+    expect(detectBeatArtifacts(cleanIBIs())).toEqual([]);
+  });
+
+  it("classifies a missed, an extra and an ectopic beat", () => {
+    const ibis = cleanIBIs();
+    ibis.splice(30, 2, ibis[30] + ibis[31]); // missed beat: two intervals merged
+    ibis.splice(60, 1, 300, ibis[60] - 300); // extra beat: one interval split
+    ibis[90] = 560; // ectopic: premature beat followed by a compensatory pause
+    ibis[91] = 1040;
+    const artifacts = detectBeatArtifacts(ibis);
+    expect(artifacts).toContainEqual({ index: 30, type: "missed" });
+    expect(artifacts).toContainEqual({ index: 60, type: "extra" });
+    // the jump rules flag the compensatory pause; the premature interval itself reads as short
+    expect(artifacts).toContainEqual({ index: 91, type: "ectopic" });
+    expect(artifacts).toHaveLength(4);
+  });
+});
+
+describe("correctIBIs", () => {
+  it("leaves a clean series unchanged", () => {
+    const ibis = cleanIBIs();
+    const out = correctIBIs(ibis);
+    expect(out.ibis).toEqual(ibis);
+    expect(out.correctedPercent).toBe(0);
+  });
+
+  it("restores the beat count and keeps corrected intervals in the normal range", () => {
+    const clean = cleanIBIs();
+    const ibis = [...clean];
+    ibis.splice(60, 1, 300, ibis[60] - 300); // extra beat
+    ibis.splice(30, 2, ibis[30] + ibis[31]); // missed beat
+    const out = correctIBIs(ibis);
+    expect(out.counts.missed).toBe(1);
+    expect(out.counts.extra).toBe(1);
+    expect(out.ibis).toHaveLength(clean.length);
+    for (const v of out.ibis) expect(Math.abs(v - 800)).toBeLessThan(60);
+    // the corrected series spans the same time as the input
+    expect(out.beatTimes[out.beatTimes.length - 1]).toBeCloseTo(ibis.reduce((a, b) => a + b, 0) / 1000, 6);
+  });
+
+  it("interpolates an ectopic pair between its clean neighbours", () => {
+    const ibis = cleanIBIs();
+    ibis[90] = 560;
+    ibis[91] = 1040;
+    const out = correctIBIs(ibis);
+    expect(out.counts.ectopic).toBeGreaterThan(0);
+    expect(out.ibis).toHaveLength(ibis.length);
+    expect(Math.abs(out.ibis[90] - 800)).toBeLessThan(60);
+    expect(Math.abs(out.ibis[91] - 800)).toBeLessThan(60);
+  });
+});
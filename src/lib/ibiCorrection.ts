@@ -0,0 +1,138 @@
+export type BeatArtifact = "missed" | "extra" | "ectopic" | "long" | "short";
+
+export interface IBICorrection {
+  ibis: number[]; // corrected intervals, ms
+  beatTimes: number[]; // s, end of each corrected interval
+  artifacts: { index: number; type: BeatArtifact }[]; // indices into the input series
+  counts: Record<BeatArtifact, number>;
+  correctedPercent: number; // share of input intervals flagged, 0..100
+}
+
+function median(x: number[]) {
+  if (!x.length) return 0;
+  const s = [...x].sort((a, b) => a - b);
+  const m = s.length >> 1;
+  return s.length % 2 ? s[m] : 0.5 * (s[m - 1] + s[m]);
+}
+
+// Quartile deviation (Q3 − Q1) / 2
+function quartileDeviation(x: number[]) {
+  if (!x.length) return 0;
+  const s = [...x].sort((a, b) => a - b);
+  const q = (p: number) => {
+    const pos = p * (s.length - 1);
+    const lo = Math.floor(pos), hi = Math.ceil(pos);
+    return s[lo] + (s[hi] - s[lo]) * (pos - lo);
+  };
+  return (q(0.75) - q(0.25)) / 2;
+}
+
+// Centred moving statistic with a window shrunk at the edges
+function moving(x: number[], win: number, fn: (w: number[]) => number) {
+  const half = win >> 1;
+  return x.map((_, i) => fn(x.slice(Math.max(0, i - half), Math.min(x.length, i + half + 1))));
+}
+
+// Classify artifact beats following Lipponen & Tarvainen (2019): successive differences and
+// deviations from an 11-beat median are scaled by time-varying thresholds (5.2 × quartile
+// deviation over 91 beats), then decision rules separate ectopic beats from missed, extra,
+// long and short intervals.
+export function detectBeatArtifacts(ibis: number[], opts?: { alpha?: number; c1?: number; c2?: number }) {
+  const alpha = opts?.alpha ?? 5.2;
+  const c1 = opts?.c1 ?? 0.13;
+  const c2 = opts?.c2 ?? 0.17;
+  const n = ibis.length;
+  const artifacts: { index: number; type: BeatArtifact }[] = [];
+  if (n < 4) return artifacts;
+
+  const drr = ibis.map((v, i) => (i ? v - ibis[i - 1] : 0));
+  drr[0] = drr.slice(1).reduce((a, b) => a + b, 0) / (n - 1);
+  const th1 = moving(drr.map(Math.abs), 91, quartileDeviation).map((q) => Math.max(1e-6, alpha * q));
+  const drrs = drr.map((d, i) => d / th1[i]);
+
+  const medrr = moving(ibis, 11, median);
+  const mrr = ibis.map((v, i) => {
+    const d = v - medrr[i];
+    return d < 0 ? 2 * d : d; // short intervals count double
+  });
+  const th2 = moving(mrr.map(Math.abs), 91, quartileDeviation).map((q) => Math.max(1e-6, alpha * q));
+  const mrrs = mrr.map((d, i) => d / th2[i]);
+
+  const at = (i: number) => (i >= 0 && i < n ? drrs[i] : 0);
+  // neighbourhood features: S12 tests for a compensating opposite jump, S22 for a two-beat pattern
+  const s12 = drrs.map((d, i) => (d > 0 ? Math.max(at(i - 1), at(i + 1)) : Math.min(at(i - 1), at(i + 1))));
+  const s22 = drrs.map((d, i) => (d >= 0 ? Math.min(at(i + 1), at(i + 2)) : Math.max(at(i + 1), at(i + 2))));
+
+  for (let i = 0; i < n; i++) {
+    if (Math.abs(drrs[i]) <= 1) continue;
+    const ectopic = (drrs[i] > 1 && s12[i] < -c1 * drrs[i] - c2) || (drrs[i] < -1 && s12[i] > -c1 * drrs[i] + c2);
+    if (ectopic) {
+      artifacts.push({ index: i, type: "ectopic" });
+      continue;
+    }
+    const longShort = (drrs[i] < -1 && s22[i] > 1) || Math.abs(mrrs[i]) > 3 || (drrs[i] > 1 && s22[i] < -1);
+    if (!longShort) continue;
+    // a missed beat leaves an interval of two beats; an extra one splits an interval in two
+    const missed = Math.abs(ibis[i] / 2 - medrr[i]) < th2[i];
+    const extra = i + 1 < n && Math.abs(ibis[i] + ibis[i + 1] - medrr[i]) < th2[i];
+    if (extra) {
+      artifacts.push({ index: i, type: "extra" });
+      i++; // the next interval is the other half
+    } else if (missed) {
+      artifacts.push({ index: i, type: "missed" });
+    } else {
+      artifacts.push({ index: i, type: mrr[i] > 0 ? "long" : "short" });
+    }
+  }
+  return artifacts;
+}
+
+// Detect and correct artifact beats: extra beats are merged with the following interval,
+// missed beats split in two, and ectopic / long / short intervals replaced by linear
+// interpolation between the nearest clean neighbours.
+// `beatTimes` (s) are the end times of each interval; by default their cumulative sum.
+export function correctIBIs(ibis: number[], beatTimes?: number[]): IBICorrection {
+  let acc = 0;
+  const times = beatTimes ?? ibis.map((v) => (acc += v / 1000));
+  const counts: Record<BeatArtifact, number> = { missed: 0, extra: 0, ectopic: 0, long: 0, short: 0 };
+  const artifacts = detectBeatArtifacts(ibis);
+  if (!artifacts.length) return { ibis: [...ibis], beatTimes: [...times], artifacts, counts, correctedPercent: 0 };
+
+  const byIndex = new Map(artifacts.map((a) => [a.index, a.type]));
+  const replaced = new Set<number>();
+  const out: number[] = [];
+  const outT: number[] = [];
+  for (let i = 0; i < ibis.length; i++) {
+    const type = byIndex.get(i);
+    if (type) counts[type]++;
+    if (type === "extra" && i + 1 < ibis.length) {
+      out.push(ibis[i] + ibis[i + 1]);
+      outT.push(times[i + 1]);
+      i++;
+    } else if (type === "missed") {
+      out.push(ibis[i] / 2, ibis[i] / 2);
+      outT.push(times[i] - ibis[i] / 2000, times[i]);
+    } else {
+      if (type) replaced.add(out.length);
+      out.push(ibis[i]);
+      outT.push(times[i]);
+    }
+  }
+
+  for (const k of replaced) {
+    let lo = k - 1, hi = k + 1;
+    while (lo >= 0 && replaced.has(lo)) lo--;
+    while (hi < out.length && replaced.has(hi)) hi++;
+    if (lo >= 0 && hi < out.length) {
+      const f = (k - lo) / (hi - lo);
+      out[k] = out[lo] + f * (out[hi] - out[lo]);
+    } else if (lo >= 0) {
+      out[k] = out[lo];
+    } else if (hi < out.length) {
+      out[k] = out[hi];
+    }
+  }
+
+  const flagged = artifacts.reduce((a, x) => a + (x.type === "extra" ? 2 : 1), 0);
+  return { ibis: out, beatTimes: outT, artifacts, counts, correctedPercent: (flagged / ibis.length) * 100 };
+}
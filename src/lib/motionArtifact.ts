@@ -0,0 +1,178 @@
+import { bandpass } from "./dsp";
+import { interpolate } from "./resample";
+
+// Head motion captured alongside each PPG frame
+export interface MotionSample {
+  t: number; // ms
+  x: number; // face center, normalized image coords
+  y: number;
+  scale: number; // face size (box height, normalized), tracks forward/backward motion
+  roll: number; // radians
+  yaw: number;
+  pitch: number;
+  rms: number; // non-rigid landmark motion (talking, expressions)
+}
+
+export type MotionMode = "none" | "gate" | "nlms" | "both";
+
+export interface MotionRejection {
+  mode: MotionMode;
+  corruptedFraction: number; // share of samples gated out, 0..1
+  removedPowerDb: number; // in-band power removed by the adaptive filter
+}
+
+export const MOTION_CHANNELS: (keyof Omit<MotionSample, "t">)[] = ["x", "y", "scale", "roll", "yaw", "pitch", "rms"];
+
+function meanStd(x: ArrayLike<number>) {
+  let m = 0;
+  for (let i = 0; i < x.length; i++) m += x[i];
+  m /= Math.max(1, x.length);
+  let v = 0;
+  for (let i = 0; i < x.length; i++) v += (x[i] - m) * (x[i] - m);
+  return { m, sd: Math.sqrt(v / Math.max(1, x.length)) };
+}
+
+function power(x: ArrayLike<number>) {
+  let p = 0;
+  for (let i = 0; i < x.length; i++) p += x[i] * x[i];
+  return p / Math.max(1, x.length);
+}
+
+// Motion channels interpolated onto the PPG time grid (ms)
+export function alignMotion(motion: MotionSample[], grid: number[]): Record<string, number[]> {
+  const src = motion.filter((s, i) => i === 0 || s.t > motion[i - 1].t);
+  const ts = src.map((s) => s.t);
+  const out: Record<string, number[]> = {};
+  for (const ch of MOTION_CHANNELS) out[ch] = interpolate(ts, src.map((s) => s[ch]), grid, "linear");
+  return out;
+}
+
+// Multi-reference normalized LMS noise canceller: the part of `primary` linearly
+// predictable from the references (with `order` taps each) is subtracted.
+// Weights are frozen where `freeze` is set so gross artifacts do not derail adaptation.
+export function nlmsCancel(
+  primary: ArrayLike<number>,
+  refs: ArrayLike<number>[],
+  opts?: { order?: number; mu?: number; freeze?: Uint8Array }
+) {
+  const order = Math.max(1, opts?.order ?? 4);
+  const mu = opts?.mu ?? 0.1;
+  const n = primary.length;
+  const K = refs.length;
+  const out = Float64Array.from(primary);
+  if (!K) return out;
+  const w = new Float64Array(K * order);
+  const x = new Float64Array(K * order);
+  // the first pass only converges the weights; the second produces the output
+  for (let pass = 0; pass < 2; pass++) {
+    for (let i = 0; i < n; i++) {
+      let norm = 0, y = 0;
+      for (let k = 0; k < K; k++) {
+        for (let j = 0; j < order; j++) {
+          const v = i - j >= 0 ? refs[k][i - j] : 0;
+          x[k * order + j] = v;
+          norm += v * v;
+          y += w[k * order + j] * v;
+        }
+      }
+      const e = primary[i] - y;
+      out[i] = e;
+      if (opts?.freeze?.[i]) continue;
+      const g = mu / (1e-6 + norm);
+      for (let q = 0; q < w.length; q++) w[q] += g * e * x[q];
+    }
+  }
+  return out;
+}
+
+// Mark samples whose motion energy is an outlier (median + k·MAD), dilated by `padSeconds`
+export function motionGateMask(aligned: Record<string, ArrayLike<number>>, fs: number, opts?: { k?: number; padSeconds?: number }) {
+  const n = aligned.x?.length ?? 0;
+  const energy = new Float64Array(n);
+  const rigid = ["x", "y", "scale"];
+  for (let i = 1; i < n; i++) {
+    let e = 0;
+    for (const ch of rigid) {
+      const d = aligned[ch][i] - aligned[ch][i - 1];
+      e += d * d;
+    }
+    // velocities are per frame; rms is already a per-frame displacement
+    energy[i] = Math.sqrt(e) + aligned.rms[i];
+  }
+  energy[0] = energy[1] ?? 0;
+  const sorted = Array.from(energy).sort((a, b) => a - b);
+  const med = sorted[Math.floor(sorted.length / 2)] ?? 0;
+  const mad = (Array.from(energy).map((e) => Math.abs(e - med)).sort((a, b) => a - b)[Math.floor(n / 2)] ?? 0) * 1.4826;
+  const thr = med + (opts?.k ?? 4) * Math.max(mad, 1e-4);
+  const pad = Math.round((opts?.padSeconds ?? 0.5) * fs);
+  const bad = new Uint8Array(n);
+  for (let i = 0; i < n; i++) {
+    if (energy[i] <= thr) continue;
+    for (let j = Math.max(0, i - pad); j <= Math.min(n - 1, i + pad); j++) bad[j] = 1;
+  }
+  return bad;
+}
+
+// Suppress gated samples with short cosine ramps to limit spectral leakage
+function applyGate(signal: Float64Array, bad: Uint8Array, fs: number) {
+  const ramp = Math.max(1, Math.round(0.2 * fs));
+  const gain = new Float64Array(signal.length).fill(1);
+  for (let i = 0; i < signal.length; i++) {
+    if (!bad[i]) continue;
+    gain[i] = 0;
+    for (let j = 1; j <= ramp; j++) {
+      const g = 0.5 - 0.5 * Math.cos((Math.PI * j) / (ramp + 1));
+      if (i - j >= 0 && !bad[i - j]) gain[i - j] = Math.min(gain[i - j], g);
+      if (i + j < signal.length && !bad[i + j]) gain[i + j] = Math.min(gain[i + j], g);
+    }
+  }
+  for (let i = 0; i < signal.length; i++) signal[i] *= gain[i];
+}
+
+// Clean a band-passed pulse using head motion (channels on the pulse grid, see `alignMotion`)
+// as noise reference; `band` should match the pulse filter. `refs` are the channels
+// band-passed like the pulse (e.g. causally, for a causally filtered pulse); when omitted
+// they are band-passed here with a zero-phase filter.
+export function cancelAlignedMotion(
+  pulse: ArrayLike<number>,
+  aligned: Record<string, ArrayLike<number>>,
+  fs: number,
+  opts?: { mode?: MotionMode; band?: [number, number]; order?: number; mu?: number; gateK?: number; refs?: Record<string, ArrayLike<number>> }
+): { signal: Float64Array; mask: Uint8Array; info: MotionRejection } {
+  const mode = opts?.mode ?? "both";
+  const signal = Float64Array.from(pulse);
+  const mask = new Uint8Array(signal.length);
+  if (mode === "none" || (aligned.x?.length ?? 0) !== signal.length || signal.length < 8) {
+    return { signal, mask, info: { mode, corruptedFraction: 0, removedPowerDb: 0 } };
+  }
+  const gating = mode === "gate" || mode === "both";
+  const bad = gating ? motionGateMask(aligned, fs, { k: opts?.gateK }) : new Uint8Array(signal.length);
+  let removedPowerDb = 0;
+
+  if (mode === "nlms" || mode === "both") {
+    const [lo, hi] = opts?.band ?? [0.7, 3.0];
+    const refs = MOTION_CHANNELS.map((ch) => {
+      const f = opts?.refs?.[ch] ?? bandpass(aligned[ch], fs, { low: lo, high: hi });
+      const { sd } = meanStd(f);
+      return sd > 1e-12 ? Float64Array.from(f, (v) => v / sd) : null;
+    }).filter((r): r is Float64Array => r != null);
+    // scale pulse to unit variance so the step size is input independent
+    const { sd } = meanStd(signal);
+    if (refs.length && sd > 1e-12) {
+      const before = power(signal);
+      const cleaned = nlmsCancel(signal.map((v) => v / sd), refs, { order: opts?.order, mu: opts?.mu, freeze: bad });
+      for (let i = 0; i < signal.length; i++) signal[i] = cleaned[i] * sd;
+      const after = power(signal);
+      removedPowerDb = after > 0 ? 10 * Math.log10(before / after) : 0;
+    }
+  }
+
+  if (gating) {
+    mask.set(bad);
+    applyGate(signal, bad, fs);
+  }
+
+  let corrupted = 0;
+  for (let i = 0; i < mask.length; i++) corrupted += mask[i];
+  return { signal, mask, info: { mode, corruptedFraction: corrupted / Math.max(1, mask.length), removedPowerDb } };
+}
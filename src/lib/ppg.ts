@@ -1,10 +1,38 @@
-import FFT from "fft.js";
+import { bandpass, detrendSmoothnessPriors, lambdaForCutoff } from "./dsp";
+import type { PowerSpectrum } from "./spectrum";
+import type { MotionRejection } from "./motionArtifact";
+import type { SignalQuality } from "./signalQuality";
+import type { Beat } from "./beats";
+import type { FrameTiming } from "./resample";
+
+export type PulseAlgorithm = "green" | "chrom" | "pos";
+
+export interface RGBSample {
+  t: number; // ms
+  r?: number; // mean red (optional for green-only traces)
+  g: number; // mean green
+  b?: number; // mean blue
+}
+
+// Filtered pulse on the uniform analysis grid, for display
+export interface PulseTrace {
+  t: number[]; // ms
+  value: number[];
+  beats: Beat[]; // onset / systolic peak / notch fiducials
+}
 
 export interface HRResult {
   bpm: number | null;
   confidence: number; // 0..1
-  sampleRate: number | null;
+  sampleRate: number | null; // uniform analysis rate after resampling
   windowSeconds: number;
+  algorithm: PulseAlgorithm;
+  timing: FrameTiming | null; // measured frame jitter / drops of the input
+  spectrum: PowerSpectrum | null; // PSD of the filtered pulse signal
+  peakHz: number | null; // refined spectral peak
+  quality: SignalQuality | null; // drives `confidence`
+  motion: MotionRejection | null; // artifact rejection applied, when motion was supplied
+  trace: PulseTrace | null;
 }
 
 // Hann window
@@ -14,99 +42,113 @@ function hann(N: number) {
   return w;
 }
 
-function mean(arr: number[]) {
-  if (!arr.length) return 0;
-  return arr.reduce((a, b) => a + b, 0) / arr.length;
-}
-
-function detrend(data: number[], span = 15) {
-  // simple moving average detrend
-  const out = new Float32Array(data.length);
-  const half = Math.max(1, Math.floor(span / 2));
-  for (let i = 0; i < data.length; i++) {
-    const start = Math.max(0, i - half);
-    const end = Math.min(data.length - 1, i + half);
-    const m = mean(data.slice(start, end + 1));
-    out[i] = data[i] - m;
-  }
-  return out;
+function std(arr: ArrayLike<number>) {
+  const n = arr.length;
+  if (!n) return 0;
+  let m = 0;
+  for (let i = 0; i < n; i++) m += arr[i];
+  m /= n;
+  let v = 0;
+  for (let i = 0; i < n; i++) v += (arr[i] - m) * (arr[i] - m);
+  return Math.sqrt(v / n);
 }
 
-function nearestPow2(n: number) {
-  return 1 << (32 - Math.clz32(n - 1));
+function hasRGB(samples: RGBSample[]) {
+  return samples.length > 0 && samples.every((s) => s.r != null && s.b != null);
 }
 
-export function computeHeartRate(
-  samples: { t: number; g: number }[],
-  opts?: { minBpm?: number; maxBpm?: number }
-): HRResult {
-  const minBpm = opts?.minBpm ?? 42; // 0.7 Hz
-  const maxBpm = opts?.maxBpm ?? 180; // 3.0 Hz
-
-  if (samples.length < 64) return { bpm: null, confidence: 0, sampleRate: null, windowSeconds: 0 };
-
-  // estimate sample rate from timestamps (milliseconds)
-  const dts: number[] = [];
-  for (let i = 1; i < samples.length; i++) dts.push((samples[i].t - samples[i - 1].t) / 1000);
-  const avgDt = mean(dts);
-  if (!isFinite(avgDt) || avgDt <= 0) return { bpm: null, confidence: 0, sampleRate: null, windowSeconds: 0 };
-  const fs = 1 / avgDt;
-
-  // build signal
-  const signal = samples.map((s) => s.g);
-
-  // normalize
-  const mu = mean(signal);
-  for (let i = 0; i < signal.length; i++) signal[i] -= mu;
-
-  // detrend + window
-  const detr = detrend(signal, Math.round(0.5 * fs));
-  const N0 = detr.length;
-  const N = nearestPow2(N0);
-  const padded = new Float32Array(N);
-  const win = hann(N);
-  const scale = 1 / N; // normalize
-  for (let i = 0; i < N; i++) {
-    const v = i < N0 ? detr[i] : 0;
-    padded[i] = v * win[i] * scale;
-  }
-
-  const f = new FFT(N);
-  const out = f.createComplexArray();
-  f.realTransform(out, padded);
-  f.completeSpectrum(out);
-
-  // compute magnitude spectrum for positive freqs
-  const mags = new Float32Array(N / 2);
-  for (let i = 0; i < N / 2; i++) {
-    const re = out[2 * i];
-    const im = out[2 * i + 1];
-    mags[i] = Math.hypot(re, im);
+// CHROM (de Haan & Jeanne 2013): two chrominance projections of the
+// mean-normalized RGB trace, combined with a per-window alpha tuning.
+// Windows of ~1.6 s are Hann-weighted and overlap-added at half overlap.
+function chrom(samples: RGBSample[], fs: number) {
+  const n = samples.length;
+  const out = new Float32Array(n);
+  const L = Math.max(8, Math.round(1.6 * fs));
+  const hop = Math.max(1, Math.floor(L / 2));
+  const win = hann(L);
+  for (let start = 0; start < n; start += hop) {
+    const end = Math.min(n, start + L);
+    const len = end - start;
+    if (len < 4) break;
+    let mr = 0, mg = 0, mb = 0;
+    for (let i = start; i < end; i++) { mr += samples[i].r!; mg += samples[i].g; mb += samples[i].b!; }
+    mr /= len; mg /= len; mb /= len;
+    if (mr <= 0 || mg <= 0 || mb <= 0) continue;
+    const X = new Float32Array(len);
+    const Y = new Float32Array(len);
+    for (let i = 0; i < len; i++) {
+      const s = samples[start + i];
+      const rn = s.r! / mr, gn = s.g / mg, bn = s.b! / mb;
+      X[i] = 3 * rn - 2 * gn;
+      Y[i] = 1.5 * rn + gn - 1.5 * bn;
+    }
+    const sy = std(Y);
+    const alpha = sy > 1e-9 ? std(X) / sy : 0;
+    let m = 0;
+    const S = new Float32Array(len);
+    for (let i = 0; i < len; i++) { S[i] = X[i] - alpha * Y[i]; m += S[i]; }
+    m /= len;
+    for (let i = 0; i < len; i++) out[start + i] += (S[i] - m) * (len === L ? win[i] : 1);
+    if (end === n) break;
   }
+  return out;
+}
 
-  // frequency per bin
-  const binToHz = fs / N;
-  const minBin = Math.max(1, Math.floor((minBpm / 60) / binToHz));
-  const maxBin = Math.min(N / 2 - 1, Math.ceil((maxBpm / 60) / binToHz));
-
-  let peakBin = -1;
-  let peakVal = 0;
-  for (let i = minBin; i <= maxBin; i++) {
-    const v = mags[i];
-    if (v > peakVal) {
-      peakVal = v;
-      peakBin = i;
+// POS (Wang et al. 2017): project the temporally normalized RGB onto the
+// plane orthogonal to skin tone, sliding a ~1.6 s window one sample at a time.
+// Overlapping windows are averaged rather than summed, so the output keeps the
+// scale of the normalized channels (as CHROM's half-overlap Hann windows do) and
+// the partly covered first and last samples are not tapered.
+function pos(samples: RGBSample[], fs: number) {
+  const n = samples.length;
+  const out = new Float32Array(n);
+  const L = Math.max(4, Math.round(1.6 * fs));
+  if (n < L) return out;
+  const count = new Uint16Array(n);
+  const S1 = new Float32Array(L);
+  const S2 = new Float32Array(L);
+  for (let start = 0; start + L <= n; start++) {
+    let mr = 0, mg = 0, mb = 0;
+    for (let i = start; i < start + L; i++) { mr += samples[i].r!; mg += samples[i].g; mb += samples[i].b!; }
+    mr /= L; mg /= L; mb /= L;
+    if (mr <= 0 || mg <= 0 || mb <= 0) continue;
+    for (let i = 0; i < L; i++) {
+      const s = samples[start + i];
+      const rn = s.r! / mr, gn = s.g / mg, bn = s.b! / mb;
+      S1[i] = gn - bn;
+      S2[i] = -2 * rn + gn + bn;
     }
+    const s2 = std(S2);
+    const alpha = s2 > 1e-9 ? std(S1) / s2 : 0;
+    let m = 0;
+    for (let i = 0; i < L; i++) m += S1[i] + alpha * S2[i];
+    m /= L;
+    for (let i = 0; i < L; i++) { out[start + i] += S1[i] + alpha * S2[i] - m; count[start + i]++; }
   }
+  for (let i = 0; i < n; i++) if (count[i]) out[i] /= count[i];
+  return out;
+}
 
-  if (peakBin < 0) return { bpm: null, confidence: 0, sampleRate: fs, windowSeconds: samples.length / fs };
-
-  const peakHz = peakBin * binToHz;
-  const bpm = peakHz * 60;
+// Convert raw color samples into a single pulse trace using the chosen method.
+// Chrominance methods need r/g/b; traces without them fall back to green.
+export function extractPulseSignal(samples: RGBSample[], algorithm: PulseAlgorithm, fs: number): number[] {
+  if (algorithm !== "green" && hasRGB(samples)) {
+    const sig = algorithm === "chrom" ? chrom(samples, fs) : pos(samples, fs);
+    return Array.from(sig);
+  }
+  // green reflectance falls as blood volume rises, so flip it to put systolic peaks up
+  return samples.map((s) => -s.g);
+}
 
-  // crude confidence: peak prominence vs band energy
-  const bandEnergy = mags.slice(minBin, maxBin + 1).reduce((a, b) => a + b, 0);
-  const confidence = Math.max(0, Math.min(1, bandEnergy ? peakVal / (bandEnergy / (maxBin - minBin + 1)) : 0));
+export interface PulseFilterOptions {
+  bandHz?: [number, number]; // band-pass cut-offs, defaults to the BPM search range
+  order?: number; // Butterworth order per edge
+  detrendHz?: number; // smoothness-priors trend cut-off, defaults to half the low cut-off
+}
 
-  return { bpm, confidence, sampleRate: fs, windowSeconds: samples.length / fs };
+// Detrend + zero-phase band-pass shared by the batch analyses (HRV, morphology, respiration, SpO2)
+export function filterPulseSignal(signal: ArrayLike<number>, fs: number, band: [number, number], opts?: PulseFilterOptions) {
+  const [low, high] = opts?.bandHz ?? band;
+  const detr = detrendSmoothnessPriors(signal, lambdaForCutoff(opts?.detrendHz ?? low / 2, fs));
+  return bandpass(detr, fs, { low, high, order: opts?.order });
 }
@@ -1,19 +1,81 @@
-import FFT from "fft.js";
+import { extractPulseSignal, filterPulseSignal, type PulseAlgorithm, type PulseFilterOptions, type RGBSample } from "./ppg";
+import { bandPower, lombScargle } from "./spectrum";
+import { correctIBIs, type BeatArtifact } from "./ibiCorrection";
+import { detectBeats, type Beat } from "./beats";
+import { DEFAULT_RESAMPLE_HZ, resampleUniform, type FrameTiming, type Interpolation } from "./resample";
 
 export interface RespirationResult {
   bpm: number | null; // breaths per minute
   confidence: number; // 0..1
-  sampleRate: number | null;
+  sampleRate: number | null; // uniform analysis rate after resampling
   windowSeconds: number;
+  timing: FrameTiming | null; // measured frame jitter / drops of the input
 }
 
 export interface HRVResult {
   rmssd: number | null; // ms
   sdnn: number | null;  // ms
   ibiMs: number | null; // mean inter-beat interval
-  beats: number;        // number of detected peaks
+  beats: number;        // number of detected beats
+  fiducials: Beat[];    // per-beat onset / peak / notch timestamps and quality
+  vlf: number | null;   // ms², 0.0033–0.04 Hz
+  lf: number | null;    // ms², 0.04–0.15 Hz
+  hf: number | null;    // ms², 0.15–0.4 Hz
+  lfNu: number | null;  // LF / (LF + HF), normalized units 0..100
+  hfNu: number | null;
+  lfHf: number | null;  // LF/HF ratio
+  ibis: number[];       // inter-beat intervals after artifact correction, ms
+  correctedPercent: number; // share of intervals flagged as missed/extra/ectopic/long/short
+  artifacts: Record<BeatArtifact, number> | null;
 }
 
+export interface PoincareData {
+  points: { x: number; y: number }[]; // (IBI[n], IBI[n+1]), ms
+  // SD1/SD2 ellipse centred on the mean IBI, major axis along the identity line
+  ellipse: { cx: number; cy: number; sd1: number; sd2: number; angle: number };
+}
+
+export interface NonlinearHRV {
+  pnn50: number | null;      // % of successive differences > 50 ms
+  sd1: number | null;        // ms, short-term (perpendicular to the identity line)
+  sd2: number | null;        // ms, long-term (along the identity line)
+  sd1sd2: number | null;
+  poincare: PoincareData | null;
+  dfaAlpha1: number | null;  // short-term scaling exponent, boxes of 4–16 beats
+  sampleEntropy: number | null; // m = 2, r = 0.2·SD
+}
+
+export interface BeatMorphology {
+  onset: number;               // ms, for matching with the beat list
+  riseTimeMs: number;          // foot to systolic peak
+  width50Ms: number | null;    // pulse width at half amplitude
+  reflectionIndex: number | null; // diastolic / systolic height, %
+  // second-derivative (SDPPG) wave ratios; `agingIndex` = (b − c − d − e) / a
+  sdppg: { ba: number | null; ca: number | null; da: number | null; ea: number | null; agingIndex: number | null };
+}
+
+export interface MorphologyResult {
+  beats: BeatMorphology[];
+  // ensemble average of the good beats, amplitude-normalized to 0..1, time from the foot
+  template: { t: number[]; value: number[] } | null;
+  // medians over beats
+  riseTimeMs: number | null;
+  width50Ms: number | null;
+  reflectionIndex: number | null;
+  agingIndex: number | null;
+}
+
+export type FrequencyHRV = Pick<HRVResult, "vlf" | "lf" | "hf" | "lfNu" | "hfNu" | "lfHf">;
+
+// Band edges (Hz) and the shortest recording (s) each band is reported for (Task Force 1996)
+const HRV_BANDS = {
+  vlf: { lo: 0.0033, hi: 0.04, minSeconds: 300 },
+  lf: { lo: 0.04, hi: 0.15, minSeconds: 120 },
+  hf: { lo: 0.15, hi: 0.4, minSeconds: 60 },
+};
+
+const NO_FREQ_HRV: FrequencyHRV = { vlf: null, lf: null, hf: null, lfNu: null, hfNu: null, lfHf: null };
+
 function mean(arr: number[]) { return arr.length ? arr.reduce((a,b)=>a+b,0)/arr.length : 0; }
 function std(arr: number[]) {
   if (!arr.length) return 0;
@@ -22,112 +84,287 @@ function std(arr: number[]) {
   return Math.sqrt(v);
 }
 
-function detrend(data: number[], span = 25) {
-  const out = new Float32Array(data.length);
-  const half = Math.max(1, Math.floor(span / 2));
-  for (let i = 0; i < data.length; i++) {
-    const s = Math.max(0, i - half);
-    const e = Math.min(data.length - 1, i + half);
-    let acc = 0, n = 0;
-    for (let j = s; j <= e; j++) { acc += data[j]; n++; }
-    out[i] = data[i] - (n ? acc / n : 0);
-  }
-  return out;
-}
-
-function nearestPow2(n: number) { return 1 << (32 - Math.clz32(Math.max(2, n) - 1)); }
-
-export function estimateRespirationRate(samples: { t: number; g: number }[], opts?: { minBpm?: number; maxBpm?: number }): RespirationResult {
-  const minBpm = opts?.minBpm ?? 6;   // 0.1 Hz
-  const maxBpm = opts?.maxBpm ?? 30;  // 0.5 Hz
-  if (samples.length < 64) return { bpm: null, confidence: 0, sampleRate: null, windowSeconds: 0 };
-
-  // sample rate
-  const dts: number[] = [];
-  for (let i = 1; i < samples.length; i++) dts.push((samples[i].t - samples[i-1].t) / 1000);
-  const dt = mean(dts);
-  if (!isFinite(dt) || dt <= 0) return { bpm: null, confidence: 0, sampleRate: null, windowSeconds: 0 };
-  const fs = 1 / dt;
-
-  // signal
-  const sig = samples.map(s => s.g);
-  const m = mean(sig);
-  for (let i = 0; i < sig.length; i++) sig[i] -= m;
-  const detr = detrend(sig, Math.round(fs));
-
-  // FFT
-  const N0 = detr.length;
-  const N = nearestPow2(N0);
-  const pad = new Float32Array(N);
-  for (let i = 0; i < N; i++) pad[i] = i < N0 ? detr[i] : 0;
-  const fft = new FFT(N);
-  const out = fft.createComplexArray();
-  fft.realTransform(out, pad);
-  fft.completeSpectrum(out);
-
-  const mags = new Float32Array(N/2);
-  for (let i = 0; i < N/2; i++) {
-    const re = out[2*i], im = out[2*i+1];
-    mags[i] = Math.hypot(re, im);
+// Spectral HRV from an inter-beat interval series (ms) using a Lomb–Scargle periodogram,
+// which handles the uneven beat-to-beat sampling without interpolation.
+// `beatTimes` (s) are the times of the second beat of each interval; by default the
+// cumulative sum of the intervals.
+export function frequencyDomainHRV(ibis: number[], beatTimes?: number[]): FrequencyHRV {
+  if (ibis.length < 8) return NO_FREQ_HRV;
+  let acc = 0;
+  const t = beatTimes ?? ibis.map((ibi) => (acc += ibi / 1000));
+  const duration = t[t.length - 1] - t[0] + ibis[0] / 1000;
+  const freqs: number[] = [];
+  for (let f = 0.003; f <= 0.4; f += 0.001) freqs.push(f);
+  const psd = lombScargle(t, ibis, freqs);
+
+  const band = (b: (typeof HRV_BANDS)[keyof typeof HRV_BANDS]) =>
+    duration >= b.minSeconds ? bandPower(psd, b.lo, b.hi) : null;
+  const vlf = band(HRV_BANDS.vlf);
+  const lf = band(HRV_BANDS.lf);
+  const hf = band(HRV_BANDS.hf);
+  const both = lf != null && hf != null && lf + hf > 0;
+  return {
+    vlf,
+    lf,
+    hf,
+    lfNu: both ? (lf / (lf + hf)) * 100 : null,
+    hfNu: both ? (hf / (lf + hf)) * 100 : null,
+    lfHf: both && hf > 0 ? lf / hf : null,
+  };
+}
+
+// Root-mean-square residual of a least-squares line through each non-overlapping box of `n` points
+function dfaFluctuation(profile: number[], n: number) {
+  const boxes = Math.floor(profile.length / n);
+  let sum = 0;
+  const xm = (n - 1) / 2;
+  let sxx = 0;
+  for (let i = 0; i < n; i++) sxx += (i - xm) * (i - xm);
+  for (let b = 0; b < boxes; b++) {
+    let ym = 0;
+    for (let i = 0; i < n; i++) ym += profile[b * n + i];
+    ym /= n;
+    let sxy = 0;
+    for (let i = 0; i < n; i++) sxy += (i - xm) * (profile[b * n + i] - ym);
+    const slope = sxy / sxx;
+    for (let i = 0; i < n; i++) {
+      const r = profile[b * n + i] - (ym + slope * (i - xm));
+      sum += r * r;
+    }
   }
+  return Math.sqrt(sum / (boxes * n));
+}
 
-  const binToHz = fs / N;
-  const minBin = Math.max(1, Math.floor((minBpm/60) / binToHz));
-  const maxBin = Math.min(N/2 - 1, Math.ceil((maxBpm/60) / binToHz));
+// Detrended fluctuation analysis: slope of log F(n) vs log n over box sizes [minBox, maxBox]
+function dfaAlpha(ibis: number[], minBox: number, maxBox: number): number | null {
+  if (ibis.length < 2 * maxBox) return null;
+  const m = mean(ibis);
+  let acc = 0;
+  const profile = ibis.map((v) => (acc += v - m));
+  const xs: number[] = [], ys: number[] = [];
+  for (let n = minBox; n <= maxBox; n++) {
+    const f = dfaFluctuation(profile, n);
+    if (f > 0) { xs.push(Math.log(n)); ys.push(Math.log(f)); }
+  }
+  if (xs.length < 2) return null;
+  const xm = mean(xs), ym = mean(ys);
+  let sxy = 0, sxx = 0;
+  for (let i = 0; i < xs.length; i++) { sxy += (xs[i] - xm) * (ys[i] - ym); sxx += (xs[i] - xm) * (xs[i] - xm); }
+  return sxx > 0 ? sxy / sxx : null;
+}
 
-  let peakBin = -1, peakVal = 0;
-  for (let i = minBin; i <= maxBin; i++) {
-    const v = mags[i];
-    if (v > peakVal) { peakVal = v; peakBin = i; }
+// Sample entropy: -ln(A/B), B/A = template pairs matching for m/m+1 points (Chebyshev distance ≤ r)
+function sampleEntropy(x: number[], m: number, r: number): number | null {
+  const n = x.length - m; // same number of templates for both lengths
+  if (n < 2) return null;
+  let A = 0, B = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      let k = 0;
+      while (k < m && Math.abs(x[i + k] - x[j + k]) <= r) k++;
+      if (k < m) continue;
+      B++;
+      if (Math.abs(x[i + m] - x[j + m]) <= r) A++;
+    }
   }
-  if (peakBin < 0) return { bpm: null, confidence: 0, sampleRate: fs, windowSeconds: samples.length / fs };
-
-  const bandEnergy = mags.slice(minBin, maxBin+1).reduce((a,b)=>a+b,0);
-  const confidence = Math.max(0, Math.min(1, bandEnergy ? peakVal / (bandEnergy / (maxBin - minBin + 1)) : 0));
-  const hz = peakBin * binToHz;
-  return { bpm: hz * 60, confidence, sampleRate: fs, windowSeconds: samples.length / fs };
-}
-
-export function estimateHRV(samples: { t: number; g: number }[]): HRVResult {
-  if (samples.length < 128) return { rmssd: null, sdnn: null, ibiMs: null, beats: 0 };
-
-  // Prepare signal (bandpass-ish via detrend + smooth)
-  const times = samples.map(s => s.t / 1000);
-  const sig = samples.map(s => s.g);
-  const m = mean(sig);
-  for (let i = 0; i < sig.length; i++) sig[i] -= m;
-  const detr = detrend(sig, 15);
-  // Simple moving average to smooth noise
-  const smoothed = new Float32Array(detr.length);
-  const k = 3;
-  for (let i = 0; i < detr.length; i++) {
-    let acc = 0, n = 0;
-    for (let j = -k; j <= k; j++) {
-      const idx = i + j;
-      if (idx >= 0 && idx < detr.length) { acc += detr[idx]; n++; }
+  return A > 0 && B > 0 ? -Math.log(A / B) : null;
+}
+
+// Nonlinear and geometric HRV from an inter-beat interval series (ms).
+// Works on any IBI array, e.g. from `estimateHRV(...).ibis` or an imported RR recording.
+export function nonlinearHRV(ibis: number[]): NonlinearHRV {
+  const empty: NonlinearHRV = { pnn50: null, sd1: null, sd2: null, sd1sd2: null, poincare: null, dfaAlpha1: null, sampleEntropy: null };
+  if (ibis.length < 3) return empty;
+
+  const diffs: number[] = [];
+  for (let i = 1; i < ibis.length; i++) diffs.push(ibis[i] - ibis[i-1]);
+  const pnn50 = (diffs.filter(d => Math.abs(d) > 50).length / diffs.length) * 100;
+
+  // Poincaré descriptors via the identities SD1² = ½·var(ΔIBI), SD2² = 2·SDNN² − SD1²
+  const sdsd = std(diffs);
+  const sdnn = std(ibis);
+  const sd1 = Math.sqrt(0.5) * sdsd;
+  const sd2 = Math.sqrt(Math.max(0, 2 * sdnn * sdnn - sd1 * sd1));
+  const m = mean(ibis);
+  const points = ibis.slice(0, -1).map((v, i) => ({ x: v, y: ibis[i + 1] }));
+
+  return {
+    pnn50,
+    sd1,
+    sd2,
+    sd1sd2: sd2 > 0 ? sd1 / sd2 : null,
+    poincare: { points, ellipse: { cx: m, cy: m, sd1, sd2, angle: Math.PI / 4 } },
+    dfaAlpha1: dfaAlpha(ibis, 4, 16),
+    sampleEntropy: ibis.length >= 10 ? sampleEntropy(ibis, 2, 0.2 * sdnn) : null,
+  };
+}
+
+function median(arr: (number | null)[]) {
+  const v = arr.filter((x): x is number => x != null && Number.isFinite(x)).sort((a, b) => a - b);
+  if (!v.length) return null;
+  const m = v.length >> 1;
+  return v.length % 2 ? v[m] : 0.5 * (v[m - 1] + v[m]);
+}
+
+// Fractional index where `x` crosses `level` between i and i + 1
+function crossing(x: ArrayLike<number>, i: number, level: number) {
+  const d = x[i + 1] - x[i];
+  return d !== 0 ? i + (level - x[i]) / d : i;
+}
+
+// a–e waves of the second derivative within one beat: a = early systolic maximum,
+// then alternating minima / maxima b, c, d, e
+function sdppgWaves(d2: Float64Array, from: number, peak: number, to: number) {
+  let a = from;
+  for (let i = from; i <= peak; i++) if (d2[i] > d2[a]) a = i;
+  if (!(d2[a] > 0)) return null;
+  const waves = [d2[a]];
+  let i = a + 1;
+  for (let w = 0; w < 4 && i < to; w++) {
+    const wantMin = w % 2 === 0;
+    let found = -1;
+    for (; i < to - 1; i++) {
+      const isExt = wantMin ? d2[i] < d2[i - 1] && d2[i] <= d2[i + 1] : d2[i] > d2[i - 1] && d2[i] >= d2[i + 1];
+      if (isExt) { found = i; break; }
     }
-    smoothed[i] = n ? acc / n : detr[i];
+    if (found < 0) break;
+    waves.push(d2[found]);
+    i = found + 1;
   }
+  return waves; // [a, b, c, d, e], possibly truncated
+}
+
+// Per-beat waveform morphology: rise time, width at 50%, reflection index, SDPPG ratios
+// and an ensemble-averaged template beat. Beats are segmented on the heart-rate band, while
+// the features are measured on a wider band (default 0.5–8 Hz) that keeps the dicrotic notch.
+export function estimateMorphology(
+  samples: RGBSample[],
+  opts?: { algorithm?: PulseAlgorithm; bandHz?: [number, number]; resampleHz?: number; interpolation?: Interpolation; minQuality?: number }
+): MorphologyResult {
+  const empty: MorphologyResult = { beats: [], template: null, riseTimeMs: null, width50Ms: null, reflectionIndex: null, agingIndex: null };
+  if (samples.length < 128) return empty;
+  const fs = opts?.resampleHz ?? DEFAULT_RESAMPLE_HZ;
+  const uniform = resampleUniform(samples, fs, opts?.interpolation);
+  if (uniform.length < 2) return empty;
+  const band = opts?.bandHz ?? [0.5, Math.min(8, 0.45 * fs)];
+  const raw = extractPulseSignal(uniform, opts?.algorithm ?? "green", fs);
+  const times = uniform.map(s => s.t);
+  const narrow = filterPulseSignal(raw, fs, [0.7, 3.0]);
+  const wide = filterPulseSignal(raw, fs, band);
+  const beats = detectBeats(narrow, times, fs, { maxBpm: 180 });
+  if (beats.length < 2) return empty;
+
+  const d2 = new Float64Array(wide.length);
+  for (let i = 1; i < wide.length - 1; i++) d2[i] = wide[i + 1] - 2 * wide[i] + wide[i - 1];
+
+  const minQuality = opts?.minQuality ?? 0.5;
+  const out: BeatMorphology[] = [];
+  const shapes: Float64Array[] = [];
+  const durations: number[] = [];
+  const len = 64;
+  for (let k = 0; k + 1 < beats.length; k++) {
+    const from = beats[k].onsetIndex, to = beats[k + 1].onsetIndex;
+    if (to - from < 6) continue;
+    // refine foot / peak on the wide-band signal inside the segment
+    let foot = from, peak = from;
+    for (let i = from; i < to; i++) if (wide[i] > wide[peak]) peak = i;
+    for (let i = from; i < peak; i++) if (wide[i] < wide[foot]) foot = i;
+    const amp = wide[peak] - wide[foot];
+    if (!(amp > 0) || peak === foot) continue;
+
+    const half = wide[foot] + amp / 2;
+    let up = -1, down = -1;
+    for (let i = foot; i < peak; i++) if (wide[i] <= half && wide[i + 1] > half) { up = i; break; }
+    for (let i = peak; i < to - 1; i++) if (wide[i] >= half && wide[i + 1] < half) { down = i; break; }
+    const width50Ms = up >= 0 && down >= 0 ? ((crossing(wide, down, half) - crossing(wide, up, half)) * 1000) / fs : null;
+
+    // diastolic peak after the notch; a shoulder (no distinct notch) gives no reflection index
+    let reflectionIndex: number | null = null;
+    let notch = -1;
+    for (let i = peak + 1; i < to - 1; i++) if (wide[i] < wide[i - 1] && wide[i] <= wide[i + 1]) { notch = i; break; }
+    if (notch > 0) {
+      let dia = notch;
+      for (let i = notch; i < to; i++) if (wide[i] > wide[dia]) dia = i;
+      if (dia > notch) reflectionIndex = ((wide[dia] - wide[foot]) / amp) * 100;
+    }
+
+    const w = sdppgWaves(d2, foot, peak, to);
+    const ratio = (j: number) => (w && w.length > j ? w[j] / w[0] : null);
+    const ba = ratio(1), ca = ratio(2), da = ratio(3), ea = ratio(4);
+    const agingIndex = ba != null && ca != null && da != null && ea != null ? ba - ca - da - ea : null;
 
-  // Peak detection
-  const mu = mean(Array.from(smoothed));
-  const sd = std(Array.from(smoothed));
-  const thr = mu + sd * 0.3; // adaptive
-  const peakIdxs: number[] = [];
-  for (let i = 1; i < smoothed.length - 1; i++) {
-    if (smoothed[i] > thr && smoothed[i] >= smoothed[i-1] && smoothed[i] > smoothed[i+1]) {
-      peakIdxs.push(i);
+    out.push({
+      onset: times[foot],
+      riseTimeMs: ((peak - foot) * 1000) / fs,
+      width50Ms,
+      reflectionIndex,
+      sdppg: { ba, ca, da, ea, agingIndex },
+    });
+
+    if (beats[k].quality < minQuality) continue;
+    const shape = new Float64Array(len);
+    for (let j = 0; j < len; j++) {
+      const pos = foot + ((to - foot) * j) / (len - 1);
+      const i0 = Math.floor(pos), i1 = Math.min(wide.length - 1, i0 + 1);
+      shape[j] = (wide[i0] + (wide[i1] - wide[i0]) * (pos - i0) - wide[foot]) / amp;
     }
+    shapes.push(shape);
+    durations.push(((to - foot) * 1000) / fs);
   }
-  if (peakIdxs.length < 3) return { rmssd: null, sdnn: null, ibiMs: null, beats: peakIdxs.length };
 
-  const ibis: number[] = [];
-  for (let i = 1; i < peakIdxs.length; i++) {
-    const t0 = times[peakIdxs[i-1]];
-    const t1 = times[peakIdxs[i]];
-    ibis.push((t1 - t0) * 1000); // ms
+  let template: MorphologyResult["template"] = null;
+  if (shapes.length >= 3) {
+    const dur = mean(durations);
+    const value = new Array<number>(len).fill(0);
+    for (const s of shapes) for (let j = 0; j < len; j++) value[j] += s[j] / shapes.length;
+    template = { t: value.map((_, j) => (dur * j) / (len - 1)), value };
+  }
+
+  return {
+    beats: out,
+    template,
+    riseTimeMs: median(out.map(b => b.riseTimeMs)),
+    width50Ms: median(out.map(b => b.width50Ms)),
+    reflectionIndex: median(out.map(b => b.reflectionIndex)),
+    agingIndex: median(out.map(b => b.sdppg.agingIndex)),
+  };
+}
+
+export function estimateHRV(
+  samples: RGBSample[],
+  opts?: {
+    algorithm?: PulseAlgorithm; // default "green"; CHROM/POS need r/b and fall back to green without
+    filter?: PulseFilterOptions;
+    resampleHz?: number;
+    interpolation?: Interpolation;
+    correctArtifacts?: boolean; // default true; clean missed/extra/ectopic beats before the metrics
   }
-  if (!ibis.length) return { rmssd: null, sdnn: null, ibiMs: null, beats: peakIdxs.length };
+): HRVResult {
+  if (samples.length < 128) return { rmssd: null, sdnn: null, ibiMs: null, beats: 0, fiducials: [], ...NO_FREQ_HRV, ibis: [], correctedPercent: 0, artifacts: null };
+
+  // uniform resampling (cubic by default, keeps peak timing between frames)
+  const fs = opts?.resampleHz ?? DEFAULT_RESAMPLE_HZ;
+  const uniform = resampleUniform(samples, fs, opts?.interpolation);
+  if (uniform.length < 2) return { rmssd: null, sdnn: null, ibiMs: null, beats: 0, fiducials: [], ...NO_FREQ_HRV, ibis: [], correctedPercent: 0, artifacts: null };
+
+  // Prepare signal: detrend + zero-phase band-pass over the heart-rate band (0.7–3 Hz)
+  const filtered = filterPulseSignal(extractPulseSignal(uniform, opts?.algorithm ?? "green", fs), fs, [0.7, 3.0], opts?.filter);
+
+  // Beat detection; intervals are taken foot to foot, the sharpest fiducial at low frame rates
+  const fiducials = detectBeats(filtered, uniform.map(s => s.t), fs, { maxBpm: 180 });
+  if (fiducials.length < 3) return { rmssd: null, sdnn: null, ibiMs: null, beats: fiducials.length, fiducials, ...NO_FREQ_HRV, ibis: [], correctedPercent: 0, artifacts: null };
+
+  const rawIbis: number[] = [];
+  const rawTimes: number[] = [];
+  for (let i = 1; i < fiducials.length; i++) {
+    rawIbis.push(fiducials[i].onset - fiducials[i-1].onset); // ms
+    rawTimes.push(fiducials[i].onset / 1000);
+  }
+
+  // a single missed or double-detected peak would otherwise dominate RMSSD
+  const corrected = (opts?.correctArtifacts ?? true) ? correctIBIs(rawIbis, rawTimes) : null;
+  const ibis = corrected?.ibis ?? rawIbis;
+  const beatTimes = corrected?.beatTimes ?? rawTimes;
 
   const diffs: number[] = [];
   for (let i = 1; i < ibis.length; i++) diffs.push(ibis[i] - ibis[i-1]);
@@ -136,5 +373,15 @@ export function estimateHRV(samples: { t: number; g: number }[]): HRVResult {
   const sdnn = ibis.length ? std(ibis) : null;
   const ibiMs = ibis.length ? mean(ibis) : null;
 
-  return { rmssd, sdnn, ibiMs, beats: peakIdxs.length };
+  return {
+    rmssd,
+    sdnn,
+    ibiMs,
+    beats: fiducials.length,
+    fiducials,
+    ...frequencyDomainHRV(ibis, beatTimes),
+    ibis,
+    correctedPercent: corrected?.correctedPercent ?? 0,
+    artifacts: corrected?.counts ?? null,
+  };
 }
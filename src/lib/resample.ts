@@ -0,0 +1,109 @@
+import type { RGBSample } from "./ppg";
+
+export type Interpolation = "linear" | "cubic";
+
+export interface FrameTiming {
+  meanFps: number;
+  meanDtMs: number;
+  medianDtMs: number;
+  jitterMs: number; // standard deviation of frame intervals
+  maxGapMs: number;
+  droppedFrames: number; // frames missing from gaps longer than 1.5× the median interval
+  dropRate: number; // 0..1, dropped / (received + dropped)
+}
+
+export const DEFAULT_RESAMPLE_HZ = 30;
+
+// Frame interval statistics from millisecond timestamps
+export function frameTimingStats(samples: { t: number }[]): FrameTiming | null {
+  if (samples.length < 2) return null;
+  const dts: number[] = [];
+  for (let i = 1; i < samples.length; i++) dts.push(samples[i].t - samples[i - 1].t);
+  const meanDt = dts.reduce((a, b) => a + b, 0) / dts.length;
+  if (!isFinite(meanDt) || meanDt <= 0) return null;
+  const sorted = dts.slice().sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  const jitter = Math.sqrt(dts.reduce((a, d) => a + (d - meanDt) * (d - meanDt), 0) / dts.length);
+  let dropped = 0;
+  if (median > 0) {
+    for (const d of dts) if (d > 1.5 * median) dropped += Math.round(d / median) - 1;
+  }
+  return {
+    meanFps: 1000 / meanDt,
+    meanDtMs: meanDt,
+    medianDtMs: median,
+    jitterMs: jitter,
+    maxGapMs: sorted[sorted.length - 1],
+    droppedFrames: dropped,
+    dropRate: dropped / (samples.length + dropped),
+  };
+}
+
+// Second derivatives of a natural cubic spline through (x, y)
+function splineSecondDerivs(x: number[], y: number[]) {
+  const n = x.length;
+  const m = new Float64Array(n);
+  if (n < 3) return m;
+  const c = new Float64Array(n);
+  const d = new Float64Array(n);
+  for (let i = 1; i < n - 1; i++) {
+    const h0 = x[i] - x[i - 1];
+    const h1 = x[i + 1] - x[i];
+    const a = h0, b = 2 * (h0 + h1), cc = h1;
+    const rhs = 6 * ((y[i + 1] - y[i]) / h1 - (y[i] - y[i - 1]) / h0);
+    // Thomas algorithm, forward sweep
+    const denom = b - a * c[i - 1];
+    c[i] = cc / denom;
+    d[i] = (rhs - a * d[i - 1]) / denom;
+  }
+  for (let i = n - 2; i >= 1; i--) m[i] = d[i] - c[i] * m[i + 1];
+  return m;
+}
+
+// Interpolate y(x) at the sorted query points `xq`
+export function interpolate(x: number[], y: number[], xq: number[], method: Interpolation = "cubic"): number[] {
+  const n = x.length;
+  if (!n) return xq.map(() => 0);
+  if (n === 1) return xq.map(() => y[0]);
+  const m = method === "cubic" ? splineSecondDerivs(x, y) : null;
+  const out = new Array<number>(xq.length);
+  let k = 0;
+  for (let q = 0; q < xq.length; q++) {
+    const v = xq[q];
+    while (k < n - 2 && x[k + 1] < v) k++;
+    const h = x[k + 1] - x[k];
+    if (h <= 0) { out[q] = y[k]; continue; }
+    const t = Math.max(0, Math.min(1, (v - x[k]) / h));
+    if (!m) {
+      out[q] = y[k] + t * (y[k + 1] - y[k]);
+    } else {
+      const a = 1 - t;
+      out[q] = a * y[k] + t * y[k + 1] + ((a * a * a - a) * m[k] + (t * t * t - t) * m[k + 1]) * (h * h) / 6;
+    }
+  }
+  return out;
+}
+
+// Resample color samples onto a uniform grid at `fs` Hz spanning the original time range.
+// Samples with duplicate timestamps are dropped before interpolation.
+export function resampleUniform<T extends RGBSample>(
+  samples: T[],
+  fs: number = DEFAULT_RESAMPLE_HZ,
+  method: Interpolation = "cubic"
+): RGBSample[] {
+  const src = samples.filter((s, i) => i === 0 || s.t > samples[i - 1].t);
+  if (src.length < 2 || !(fs > 0)) return src.map((s) => ({ t: s.t, r: s.r, g: s.g, b: s.b }));
+  const t0 = src[0].t;
+  const t1 = src[src.length - 1].t;
+  const step = 1000 / fs;
+  const count = Math.floor((t1 - t0) / step) + 1;
+  const grid = new Array<number>(count);
+  for (let i = 0; i < count; i++) grid[i] = t0 + i * step;
+
+  const ts = src.map((s) => s.t);
+  const g = interpolate(ts, src.map((s) => s.g), grid, method);
+  const hasRGB = src.every((s) => s.r != null && s.b != null);
+  const r = hasRGB ? interpolate(ts, src.map((s) => s.r!), grid, method) : null;
+  const b = hasRGB ? interpolate(ts, src.map((s) => s.b!), grid, method) : null;
+  return grid.map((t, i) => (hasRGB ? { t, r: r![i], g: g[i], b: b![i] } : { t, g: g[i] }));
+}
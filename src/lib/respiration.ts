@@ -0,0 +1,129 @@
+import { extractPulseSignal, filterPulseSignal, type PulseAlgorithm, type RGBSample } from "./ppg";
+import { detectBeats, type Beat } from "./beats";
+import { alignMotion, type MotionSample } from "./motionArtifact";
+import { findSpectralPeak, periodogram } from "./spectrum";
+import { DEFAULT_RESAMPLE_HZ, interpolate, resampleUniform, type Interpolation } from "./resample";
+
+// Respiratory modulations of the PPG (Karlen et al. 2013) plus vertical head motion
+export type RespSource = "baseline" | "amplitude" | "frequency" | "motion";
+
+export interface RespSourceEstimate {
+  source: RespSource;
+  bpm: number | null; // breaths per minute
+  quality: number; // 0..1, share of band power around the peak
+}
+
+export interface FusedRespiration {
+  bpm: number | null;
+  confidence: number; // 0..1
+  sources: RespSourceEstimate[];
+  used: RespSource[]; // sources that agreed and entered the fused estimate
+  windowSeconds: number;
+}
+
+const SERIES_HZ = 4; // beat-to-beat series are resampled to this rate
+
+// Dominant breathing frequency of a uniformly sampled series
+function respPeak(x: ArrayLike<number>, fs: number, minBpm: number, maxBpm: number, source: RespSource): RespSourceEstimate {
+  const lo = minBpm / 60, hi = maxBpm / 60;
+  const filtered = filterPulseSignal(x, fs, [lo, hi]);
+  const spec = periodogram(filtered, fs, { nfft: 1024 });
+  const peak = findSpectralPeak(spec, lo, hi);
+  if (!peak) return { source, bpm: null, quality: 0 };
+  let inPeak = 0, total = 0;
+  spec.freqs.forEach((f, k) => {
+    if (f < lo || f > hi) return;
+    total += spec.power[k];
+    if (Math.abs(f - peak.hz) <= 0.03) inPeak += spec.power[k];
+  });
+  return { source, bpm: peak.hz * 60, quality: total > 0 ? inPeak / total : 0 };
+}
+
+// Beat-indexed values onto a uniform grid (ms)
+function beatSeries(beats: Beat[], value: (b: Beat, i: number) => number, grid: number[]) {
+  const x = beats.map((b) => b.onset);
+  return interpolate(x, beats.map(value), grid, "cubic");
+}
+
+// Respiration from three PPG modulations and vertical head motion, fused with smart-fusion
+// style outlier rejection: sources more than `agreeBpm` from the quality-weighted median are
+// dropped and the rest averaged by quality.
+// - baseline: mean intensity per beat (venous / intrathoracic pressure wander)
+// - amplitude: foot-to-peak amplitude per beat (stroke volume changes)
+// - frequency: inter-beat interval (respiratory sinus arrhythmia)
+// - motion: vertical face position (chest and shoulders lift the head)
+export function estimateFusedRespiration(
+  samples: RGBSample[],
+  opts?: {
+    algorithm?: PulseAlgorithm; // beat detection; default "green"
+    motion?: MotionSample[];
+    minBpm?: number;
+    maxBpm?: number;
+    resampleHz?: number;
+    interpolation?: Interpolation;
+    minQuality?: number; // sources below are ignored, default 0.2
+    agreeBpm?: number; // default 3
+  }
+): FusedRespiration {
+  const minBpm = opts?.minBpm ?? 6;
+  const maxBpm = opts?.maxBpm ?? 30;
+  const minQuality = opts?.minQuality ?? 0.2;
+  const agreeBpm = opts?.agreeBpm ?? 3;
+  const none: FusedRespiration = { bpm: null, confidence: 0, sources: [], used: [], windowSeconds: 0 };
+  if (samples.length < 128) return none;
+
+  const fs = opts?.resampleHz ?? DEFAULT_RESAMPLE_HZ;
+  const uniform = resampleUniform(samples, fs, opts?.interpolation);
+  if (uniform.length < 2) return none;
+  const times = uniform.map((s) => s.t);
+  const windowSeconds = uniform.length / fs;
+  // the baseline source needs intensity, which chrominance pulses normalize away, so it stays
+  // on (inverted) green; beats come from the selected pulse signal
+  const raw = extractPulseSignal(uniform, "green", fs);
+  const pulse = filterPulseSignal(opts?.algorithm && opts.algorithm !== "green" ? extractPulseSignal(uniform, opts.algorithm, fs) : raw, fs, [0.7, 3.0]);
+  const beats = detectBeats(pulse, times, fs, { maxBpm: 180 });
+
+  const grid: number[] = [];
+  for (let t = times[0]; t <= times[times.length - 1]; t += 1000 / SERIES_HZ) grid.push(t);
+
+  const sources: RespSourceEstimate[] = [];
+  // at least two breaths at the slowest rate need several beats per breath
+  if (beats.length >= 8) {
+    const inside = grid.filter((t) => t >= beats[0].onset && t <= beats[beats.length - 1].onset);
+    const onsets = beats.map((b) => b.onsetIndex);
+    const baseline = (b: Beat, i: number) => {
+      const end = i + 1 < onsets.length ? onsets[i + 1] : Math.min(raw.length, b.onsetIndex + (b.peakIndex - b.onsetIndex) * 3);
+      let s = 0;
+      for (let k = b.onsetIndex; k < end; k++) s += raw[k];
+      return s / Math.max(1, end - b.onsetIndex);
+    };
+    const ibi = (b: Beat, i: number) => (i ? b.onset - beats[i - 1].onset : beats.length > 1 ? beats[1].onset - b.onset : 0);
+    if (inside.length >= 16) {
+      sources.push(respPeak(beatSeries(beats, baseline, inside), SERIES_HZ, minBpm, maxBpm, "baseline"));
+      sources.push(respPeak(beatSeries(beats, (b) => b.amplitude, inside), SERIES_HZ, minBpm, maxBpm, "amplitude"));
+      sources.push(respPeak(beatSeries(beats, ibi, inside), SERIES_HZ, minBpm, maxBpm, "frequency"));
+    }
+  }
+  if (opts?.motion && opts.motion.length >= 16) {
+    const mgrid = grid.filter((t) => t >= opts.motion![0].t && t <= opts.motion![opts.motion!.length - 1].t);
+    if (mgrid.length >= 16) sources.push(respPeak(alignMotion(opts.motion, mgrid).y, SERIES_HZ, minBpm, maxBpm, "motion"));
+  }
+
+  const valid = sources.filter((s) => s.bpm != null && s.quality >= minQuality) as (RespSourceEstimate & { bpm: number })[];
+  if (!valid.length) return { bpm: null, confidence: 0, sources, used: [], windowSeconds };
+
+  // quality-weighted median as the reference for agreement
+  const sorted = [...valid].sort((a, b) => a.bpm - b.bpm);
+  const wTotal = sorted.reduce((a, s) => a + s.quality, 0);
+  let acc = 0, ref = sorted[0].bpm;
+  for (const s of sorted) {
+    acc += s.quality;
+    if (acc >= wTotal / 2) { ref = s.bpm; break; }
+  }
+  const agree = valid.filter((s) => Math.abs(s.bpm - ref) <= agreeBpm);
+  const w = agree.reduce((a, s) => a + s.quality, 0);
+  const bpm = agree.reduce((a, s) => a + s.bpm * s.quality, 0) / w;
+  // confident when strong sources agree and none contradict
+  const confidence = Math.max(0, Math.min(1, (w / agree.length) * (w / wTotal) * Math.min(1, agree.length / 2)));
+  return { bpm, confidence, sources, used: agree.map((s) => s.source), windowSeconds };
+}
@@ -0,0 +1,175 @@
+import { findSpectralPeak, periodogram } from "./spectrum";
+import { spectralSNR } from "./signalQuality";
+
+export interface P2 { x: number; y: number }
+
+export type RoiName = "forehead" | "leftCheek" | "rightCheek";
+
+export interface RoiPolygon {
+  name: RoiName;
+  polygon: P2[]; // pixels
+}
+
+export interface RegionColor {
+  r: number;
+  g: number;
+  b: number;
+  pixels: number; // sampled pixels inside the polygon that passed the mask
+  total: number; // sampled pixels inside the polygon
+}
+
+// MediaPipe face mesh indices, ordered around each polygon.
+// "left"/"right" follow the mesh side used by faceMetrics (33/133 = left eye).
+export const ROI_INDICES: Record<RoiName, number[]> = {
+  forehead: [10, 338, 297, 332, 333, 299, 337, 151, 108, 69, 104, 103, 67, 109],
+  leftCheek: [117, 118, 101, 36, 205, 187, 123],
+  rightCheek: [346, 347, 330, 266, 425, 411, 352],
+};
+
+export const ROI_NAMES: RoiName[] = ["forehead", "leftCheek", "rightCheek"];
+
+// Build pixel-space polygons from normalized landmarks (needs the full mesh)
+export function buildRoiPolygons(points: { x: number; y: number }[], width: number, height: number): RoiPolygon[] {
+  if (!points || points.length < 468) return [];
+  return ROI_NAMES.map((name) => ({
+    name,
+    polygon: ROI_INDICES[name].map((i) => ({ x: points[i].x * width, y: points[i].y * height })),
+  }));
+}
+
+// Exponential smoothing of polygon vertices across frames to reduce jitter
+export function smoothRoiPolygons(prev: RoiPolygon[] | null, next: RoiPolygon[], alpha = 0.6): RoiPolygon[] {
+  if (!prev || prev.length !== next.length) return next;
+  return next.map((r, k) => {
+    const p = prev[k];
+    if (p.name !== r.name || p.polygon.length !== r.polygon.length) return r;
+    return {
+      name: r.name,
+      polygon: r.polygon.map((q, i) => ({
+        x: alpha * p.polygon[i].x + (1 - alpha) * q.x,
+        y: alpha * p.polygon[i].y + (1 - alpha) * q.y,
+      })),
+    };
+  });
+}
+
+// Integer pixel bounds enclosing all polygons, clamped to the frame
+export function roiBounds(rois: RoiPolygon[], width: number, height: number) {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const r of rois) {
+    for (const p of r.polygon) {
+      if (p.x < minX) minX = p.x;
+      if (p.y < minY) minY = p.y;
+      if (p.x > maxX) maxX = p.x;
+      if (p.y > maxY) maxY = p.y;
+    }
+  }
+  const x = Math.max(0, Math.floor(minX));
+  const y = Math.max(0, Math.floor(minY));
+  const x1 = Math.min(width, Math.ceil(maxX));
+  const y1 = Math.min(height, Math.ceil(maxY));
+  return { x, y, w: Math.max(0, x1 - x), h: Math.max(0, y1 - y) };
+}
+
+export function insidePolygon(x: number, y: number, poly: P2[]) {
+  let inside = false;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const a = poly[i], b = poly[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+}
+
+// Mean color of the pixels inside a polygon.
+// `image` covers the frame region starting at `origin` (pixels); `stride` skips pixels in x and y.
+// An optional `mask` rejects pixels (e.g. non-skin) before averaging.
+export function samplePolygon(
+  image: { data: Uint8ClampedArray; width: number; height: number },
+  polygon: P2[],
+  origin: P2 = { x: 0, y: 0 },
+  stride = 2,
+  mask?: (r: number, g: number, b: number) => boolean
+): RegionColor {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const p of polygon) {
+    if (p.x < minX) minX = p.x;
+    if (p.y < minY) minY = p.y;
+    if (p.x > maxX) maxX = p.x;
+    if (p.y > maxY) maxY = p.y;
+  }
+  const x0 = Math.max(0, Math.floor(minX - origin.x));
+  const y0 = Math.max(0, Math.floor(minY - origin.y));
+  const x1 = Math.min(image.width - 1, Math.ceil(maxX - origin.x));
+  const y1 = Math.min(image.height - 1, Math.ceil(maxY - origin.y));
+
+  let sr = 0, sg = 0, sb = 0, n = 0, total = 0;
+  for (let y = y0; y <= y1; y += stride) {
+    for (let x = x0; x <= x1; x += stride) {
+      if (!insidePolygon(x + origin.x + 0.5, y + origin.y + 0.5, polygon)) continue;
+      total++;
+      const i = (y * image.width + x) * 4;
+      const r = image.data[i], g = image.data[i + 1], b = image.data[i + 2];
+      if (mask && !mask(r, g, b)) continue;
+      sr += r;
+      sg += g;
+      sb += b;
+      n++;
+    }
+  }
+  if (!n) return { r: 0, g: 0, b: 0, pixels: 0, total };
+  return { r: sr / n, g: sg / n, b: sb / n, pixels: n, total };
+}
+
+// Spectral SNR (dB) of a region around its own in-band peak
+function regionSNR(signal: number[], fs: number, minBpm: number, maxBpm: number) {
+  const spec = periodogram(signal, fs);
+  const peak = findSpectralPeak(spec, minBpm / 60, maxBpm / 60, { refine: "none" });
+  if (!peak) return -Infinity;
+  return spectralSNR(spec, peak.hz, { minHz: minBpm / 60, maxHz: Math.min(fs / 2, (maxBpm / 60) * 2) }) ?? -Infinity;
+}
+
+// SNR-weighted sum of equal-length, band-passed region pulses. Each is scaled to zero mean
+// and unit variance so regions contribute on the same scale; missing regions get weight 0.
+export function fuseRegionPulses(
+  pulses: Partial<Record<RoiName, ArrayLike<number>>>,
+  fs: number,
+  minBpm: number,
+  maxBpm: number
+): { pulse: Float64Array; weights: Record<RoiName, number>; snr: Record<RoiName, number> } | null {
+  const n = Math.max(0, ...ROI_NAMES.map((name) => pulses[name]?.length ?? 0));
+  const snr = {} as Record<RoiName, number>;
+  const traces = {} as Record<RoiName, Float64Array>;
+  for (const name of ROI_NAMES) {
+    const sig = pulses[name];
+    if (!sig || !n || sig.length !== n) {
+      snr[name] = -Infinity;
+      continue;
+    }
+    let m = 0;
+    for (let i = 0; i < n; i++) m += sig[i] / n;
+    let v = 0;
+    for (let i = 0; i < n; i++) v += (sig[i] - m) * (sig[i] - m) / n;
+    const sd = Math.sqrt(v) || 1;
+    traces[name] = Float64Array.from(sig, (x) => (x - m) / sd);
+    snr[name] = regionSNR(Array.from(traces[name]), fs, minBpm, maxBpm);
+  }
+
+  // linear SNR as weight
+  const weights = {} as Record<RoiName, number>;
+  let total = 0;
+  for (const name of ROI_NAMES) {
+    const db = snr[name];
+    const lin = !traces[name] || db === -Infinity ? 0 : Math.pow(10, db / 10);
+    weights[name] = lin;
+    total += lin;
+  }
+  if (!total) return null;
+  for (const name of ROI_NAMES) weights[name] /= total;
+
+  const pulse = new Float64Array(n);
+  for (const name of ROI_NAMES) {
+    if (!weights[name]) continue;
+    for (let i = 0; i < n; i++) pulse[i] += weights[name] * traces[name][i];
+  }
+  return { pulse, weights, snr };
+}
@@ -0,0 +1,171 @@
+import type { PowerSpectrum } from "./spectrum";
+
+export interface SignalQuality {
+  score: number; // 0..1
+  snrDb: number | null; // power at HR and its 2nd harmonic vs. the rest of the pulse band
+  templateCorr: number | null; // mean correlation of individual beats with the averaged beat
+  skewness: number | null; // of the filtered pulse waveform
+  perfusionIndex: number | null; // AC/DC in percent
+  reasons: string[]; // human-readable causes of a reduced score
+}
+
+function clamp01(v: number) { return Math.max(0, Math.min(1, v)); }
+
+function mean(arr: ArrayLike<number>) {
+  let s = 0;
+  for (let i = 0; i < arr.length; i++) s += arr[i];
+  return arr.length ? s / arr.length : 0;
+}
+
+function pearson(a: ArrayLike<number>, b: ArrayLike<number>) {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return 0;
+  let ma = 0, mb = 0;
+  for (let i = 0; i < n; i++) { ma += a[i]; mb += b[i]; }
+  ma /= n; mb /= n;
+  let num = 0, da = 0, db = 0;
+  for (let i = 0; i < n; i++) {
+    const x = a[i] - ma, y = b[i] - mb;
+    num += x * y; da += x * x; db += y * y;
+  }
+  return da > 0 && db > 0 ? num / Math.sqrt(da * db) : 0;
+}
+
+// Spectral SNR (de Haan): power within ±tolHz of the HR and its 2nd harmonic
+// vs. the remaining power inside [minHz, maxHz]
+export function spectralSNR(spec: PowerSpectrum, hrHz: number, opts?: { minHz?: number; maxHz?: number; tolHz?: number }): number | null {
+  const { freqs, power } = spec;
+  if (freqs.length < 2 || !(hrHz > 0)) return null;
+  const minHz = opts?.minHz ?? 0.7;
+  const maxHz = opts?.maxHz ?? 4;
+  const tol = opts?.tolHz ?? 0.1;
+  let sig = 0, noise = 0;
+  for (let k = 1; k < freqs.length; k++) {
+    const f = freqs[k];
+    if (f < minHz || f > maxHz) continue;
+    if (Math.abs(f - hrHz) <= tol || Math.abs(f - 2 * hrHz) <= tol) sig += power[k];
+    else noise += power[k];
+  }
+  if (sig <= 0) return null;
+  return noise > 0 ? 10 * Math.log10(sig / noise) : 30;
+}
+
+// Systolic peaks: local maxima at least 0.6 periods apart, keeping the larger of close pairs.
+// Peaks within half a period of either end are skipped so every beat can be segmented.
+export function findBeatPeaks(pulse: ArrayLike<number>, fs: number, hrHz: number): number[] {
+  if (!(hrHz > 0)) return [];
+  const period = Math.round(fs / hrHz);
+  const half = Math.floor(period / 2);
+  const minDist = Math.max(1, Math.round(0.6 * period));
+  const peaks: number[] = [];
+  for (let i = half + 1; i < pulse.length - half - 1; i++) {
+    if (pulse[i] > pulse[i - 1] && pulse[i] >= pulse[i + 1]) {
+      if (peaks.length && i - peaks[peaks.length - 1] < minDist) {
+        if (pulse[i] > pulse[peaks[peaks.length - 1]]) peaks[peaks.length - 1] = i;
+      } else {
+        peaks.push(i);
+      }
+    }
+  }
+  return peaks;
+}
+
+// Mean correlation of each beat with the ensemble-average beat,
+// segmented one period around each peak from `findBeatPeaks`.
+export function templateCorrelation(pulse: ArrayLike<number>, fs: number, hrHz: number): number | null {
+  if (!(hrHz > 0)) return null;
+  const half = Math.floor(Math.round(fs / hrHz) / 2);
+  const peaks = findBeatPeaks(pulse, fs, hrHz);
+  if (peaks.length < 3) return null;
+  const len = 2 * half + 1;
+  const template = new Float64Array(len);
+  const beats = peaks.map((p) => {
+    const seg = new Float64Array(len);
+    for (let k = 0; k < len; k++) seg[k] = pulse[p - half + k];
+    return seg;
+  });
+  for (const seg of beats) for (let k = 0; k < len; k++) template[k] += seg[k] / beats.length;
+  return mean(beats.map((seg) => pearson(seg, template)));
+}
+
+export function skewness(x: ArrayLike<number>): number | null {
+  const n = x.length;
+  if (n < 3) return null;
+  const m = mean(x);
+  let m2 = 0, m3 = 0;
+  for (let i = 0; i < n; i++) {
+    const d = x[i] - m;
+    m2 += d * d; m3 += d * d * d;
+  }
+  m2 /= n; m3 /= n;
+  return m2 > 0 ? m3 / Math.pow(m2, 1.5) : 0;
+}
+
+// Robust AC amplitude (5th–95th percentile span) relative to DC, in percent
+export function perfusionIndex(pulse: ArrayLike<number>, dc: number): number | null {
+  if (pulse.length < 2 || !(dc > 0)) return null;
+  const sorted = Array.from(pulse).sort((a, b) => a - b);
+  const lo = sorted[Math.floor(0.05 * (sorted.length - 1))];
+  const hi = sorted[Math.ceil(0.95 * (sorted.length - 1))];
+  return ((hi - lo) / dc) * 100;
+}
+
+// Combine SNR, beat template consistency, skewness and perfusion into a 0..1 score.
+// `pulse` is the filtered pulse trace; `dc` the raw mean intensity (null for normalized or
+// zero-mean pulses, which skips perfusion); `skinRatio` the share of ROI pixels classified as skin.
+export function assessSignalQuality(input: {
+  pulse: ArrayLike<number>;
+  fs: number;
+  spectrum: PowerSpectrum | null;
+  hrHz: number | null;
+  dc?: number | null;
+  skinRatio?: number | null;
+}): SignalQuality {
+  const { pulse, fs, spectrum, hrHz } = input;
+  const reasons: string[] = [];
+  const snrDb = spectrum && hrHz ? spectralSNR(spectrum, hrHz, { maxHz: Math.min(4, fs / 2) }) : null;
+  const templateCorr = hrHz ? templateCorrelation(pulse, fs, hrHz) : null;
+  const skew = skewness(pulse);
+  const pi = input.dc != null ? perfusionIndex(pulse, input.dc) : null;
+
+  const parts: { w: number; s: number }[] = [];
+  if (snrDb != null) {
+    const s = clamp01((snrDb + 5) / 10); // -5 dB -> 0, +5 dB -> 1
+    parts.push({ w: 0.45, s });
+    if (s < 0.5) reasons.push(`Low spectral SNR (${snrDb.toFixed(1)} dB)`);
+  } else {
+    parts.push({ w: 0.45, s: 0 });
+    reasons.push("No pulse peak found");
+  }
+  if (templateCorr != null) {
+    const s = clamp01((templateCorr - 0.3) / 0.6);
+    parts.push({ w: 0.3, s });
+    if (s < 0.5) reasons.push(`Inconsistent beat shape (r=${templateCorr.toFixed(2)})`);
+  } else {
+    parts.push({ w: 0.3, s: 0 });
+    reasons.push("Too few beats to compare");
+  }
+  if (skew != null) {
+    // a clean pulse is asymmetric (fast upstroke); noise is near-symmetric
+    const s = clamp01(Math.abs(skew) / 0.5);
+    parts.push({ w: 0.1, s });
+    if (s < 0.3) reasons.push("Symmetric waveform (noise-like)");
+  }
+  if (pi != null) {
+    const lowPi = 0.05, highPi = 3;
+    const s = pi < lowPi ? pi / lowPi : pi > highPi ? highPi / pi : 1;
+    parts.push({ w: 0.15, s });
+    if (pi < lowPi) reasons.push(`Very weak pulsation (PI ${pi.toFixed(2)}%)`);
+    else if (pi > highPi) reasons.push(`Pulsation too large, likely motion (PI ${pi.toFixed(1)}%)`);
+  }
+
+  const wsum = parts.reduce((a, p) => a + p.w, 0);
+  let score = wsum ? parts.reduce((a, p) => a + p.w * p.s, 0) / wsum : 0;
+  if (input.skinRatio != null) {
+    const skin = clamp01(input.skinRatio / 0.5);
+    score *= skin;
+    if (skin < 0.6) reasons.push(`Little skin visible (${(input.skinRatio * 100).toFixed(0)}%)`);
+  }
+
+  return { score: clamp01(score), snrDb, templateCorr, skewness: skew, perfusionIndex: pi, reasons };
+}
@@ -0,0 +1,113 @@
+import { insidePolygon, type P2 } from "./roi";
+
+// Per-face skin color model in the YCbCr chroma plane
+export interface SkinModel {
+  cb: number;
+  cr: number;
+  cbSd: number;
+  crSd: number;
+  pixels: number; // pixels the model was fitted on
+}
+
+// Generic skin chroma box (Chai & Ngan) used until a face-specific model exists
+export const DEFAULT_SKIN_MODEL: SkinModel = { cb: 102, cr: 153, cbSd: 10, crSd: 8, pixels: 0 };
+
+const SATURATED = 250; // channel value treated as clipped / specular
+const MIN_LUMA = 40; // too dark to carry pulse information
+
+function toYCbCr(r: number, g: number, b: number) {
+  const y = 0.299 * r + 0.587 * g + 0.114 * b;
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return { y, cb, cr };
+}
+
+function hueSat(r: number, g: number, b: number) {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const d = max - min;
+  const s = max > 0 ? d / max : 0;
+  let h = 0;
+  if (d > 0) {
+    if (max === r) h = 60 * (((g - b) / d) % 6);
+    else if (max === g) h = 60 * ((b - r) / d + 2);
+    else h = 60 * ((r - g) / d + 4);
+  }
+  if (h < 0) h += 360;
+  return { h, s, v: max / 255 };
+}
+
+// Loose static gate: plausible skin chroma/hue, not clipped, not too dark
+export function isLooseSkin(r: number, g: number, b: number) {
+  if (r >= SATURATED || g >= SATURATED || b >= SATURATED) return false;
+  const { y, cb, cr } = toYCbCr(r, g, b);
+  if (y < MIN_LUMA) return false;
+  if (cb < 77 || cb > 127 || cr < 133 || cr > 173) return false;
+  const { h, s, v } = hueSat(r, g, b);
+  if (!(h <= 50 || h >= 340)) return false;
+  // low saturation at high value = specular highlight
+  if (s < 0.1 || s > 0.75 || (v > 0.9 && s < 0.2)) return false;
+  return true;
+}
+
+// Pixel passes the loose gate and lies within k standard deviations of the face's chroma
+export function isSkinPixel(r: number, g: number, b: number, model: SkinModel = DEFAULT_SKIN_MODEL, k = 2.5) {
+  if (!isLooseSkin(r, g, b)) return false;
+  const { cb, cr } = toYCbCr(r, g, b);
+  const dcb = (cb - model.cb) / model.cbSd;
+  const dcr = (cr - model.cr) / model.crSd;
+  return dcb * dcb + dcr * dcr <= k * k;
+}
+
+// Fit chroma statistics from loose-skin pixels inside the given polygons.
+// `image` covers the frame region starting at `origin` (pixels).
+export function fitSkinModel(
+  image: { data: Uint8ClampedArray; width: number; height: number },
+  polygons: P2[][],
+  origin: P2 = { x: 0, y: 0 },
+  stride = 4
+): SkinModel | null {
+  let n = 0, sCb = 0, sCr = 0, sCb2 = 0, sCr2 = 0;
+  for (const poly of polygons) {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const p of poly) {
+      if (p.x < minX) minX = p.x;
+      if (p.y < minY) minY = p.y;
+      if (p.x > maxX) maxX = p.x;
+      if (p.y > maxY) maxY = p.y;
+    }
+    const x0 = Math.max(0, Math.floor(minX - origin.x));
+    const y0 = Math.max(0, Math.floor(minY - origin.y));
+    const x1 = Math.min(image.width - 1, Math.ceil(maxX - origin.x));
+    const y1 = Math.min(image.height - 1, Math.ceil(maxY - origin.y));
+    for (let y = y0; y <= y1; y += stride) {
+      for (let x = x0; x <= x1; x += stride) {
+        if (!insidePolygon(x + origin.x + 0.5, y + origin.y + 0.5, poly)) continue;
+        const i = (y * image.width + x) * 4;
+        const r = image.data[i], g = image.data[i + 1], b = image.data[i + 2];
+        if (!isLooseSkin(r, g, b)) continue;
+        const { cb, cr } = toYCbCr(r, g, b);
+        sCb += cb; sCr += cr; sCb2 += cb * cb; sCr2 += cr * cr;
+        n++;
+      }
+    }
+  }
+  if (n < 20) return null;
+  const cb = sCb / n, cr = sCr / n;
+  const cbSd = Math.max(2, Math.sqrt(Math.max(0, sCb2 / n - cb * cb)));
+  const crSd = Math.max(2, Math.sqrt(Math.max(0, sCr2 / n - cr * cr)));
+  return { cb, cr, cbSd, crSd, pixels: n };
+}
+
+// Exponential blend so the model adapts to lighting without jumping per frame
+export function blendSkinModel(prev: SkinModel | null, next: SkinModel | null, alpha = 0.9): SkinModel | null {
+  if (!next) return prev;
+  if (!prev) return next;
+  return {
+    cb: alpha * prev.cb + (1 - alpha) * next.cb,
+    cr: alpha * prev.cr + (1 - alpha) * next.cr,
+    cbSd: alpha * prev.cbSd + (1 - alpha) * next.cbSd,
+    crSd: alpha * prev.crSd + (1 - alpha) * next.crSd,
+    pixels: next.pixels,
+  };
+}
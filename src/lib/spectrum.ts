@@ -0,0 +1,206 @@
+import FFT from "fft.js";
+
+export type PeakRefinement = "none" | "parabolic" | "zoom";
+
+export interface PowerSpectrum {
+  freqs: number[]; // Hz
+  power: number[]; // one-sided power per bin
+}
+
+export interface SpectralPeak {
+  hz: number;
+  power: number;
+  bin: number; // integer bin of the raw maximum
+}
+
+// Hann window
+function hann(N: number) {
+  const w = new Float64Array(N);
+  if (N === 1) { w[0] = 1; return w; }
+  for (let i = 0; i < N; i++) w[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (N - 1)));
+  return w;
+}
+
+function nearestPow2(n: number) { return 1 << (32 - Math.clz32(Math.max(2, n) - 1)); }
+
+// FFT instances are reused per size
+const fftCache = new Map<number, FFT>();
+function getFFT(N: number) {
+  let f = fftCache.get(N);
+  if (!f) { f = new FFT(N); fftCache.set(N, f); }
+  return f;
+}
+
+// Power of one Hann-windowed segment, zero-padded to `nfft`
+function segmentPower(signal: ArrayLike<number>, start: number, len: number, nfft: number, win: Float64Array) {
+  const f = getFFT(nfft);
+  const padded = new Array<number>(nfft).fill(0);
+  let m = 0;
+  for (let i = 0; i < len; i++) m += signal[start + i];
+  m /= Math.max(1, len);
+  let wss = 0;
+  for (let i = 0; i < len; i++) {
+    padded[i] = (signal[start + i] - m) * win[i];
+    wss += win[i] * win[i];
+  }
+  const out = f.createComplexArray();
+  f.realTransform(out, padded);
+  f.completeSpectrum(out);
+  const half = nfft / 2;
+  const p = new Float64Array(half + 1);
+  for (let k = 0; k <= half; k++) {
+    const re = out[2 * k], im = out[2 * k + 1];
+    p[k] = (re * re + im * im) / Math.max(1e-12, wss);
+    if (k > 0 && k < half) p[k] *= 2; // one-sided
+  }
+  return p;
+}
+
+function toSpectrum(p: Float64Array, fs: number, nfft: number): PowerSpectrum {
+  const freqs = new Array<number>(p.length);
+  const power = new Array<number>(p.length);
+  for (let k = 0; k < p.length; k++) { freqs[k] = (k * fs) / nfft; power[k] = p[k]; }
+  return { freqs, power };
+}
+
+// Single Hann-windowed periodogram over the whole signal
+export function periodogram(signal: ArrayLike<number>, fs: number, opts?: { nfft?: number }): PowerSpectrum {
+  const N0 = signal.length;
+  const nfft = Math.max(nearestPow2(N0), opts?.nfft ?? 0);
+  return toSpectrum(segmentPower(signal, 0, N0, nfft, hann(N0)), fs, nfft);
+}
+
+// Welch's method: average periodograms of overlapping Hann-windowed segments
+export function welchPSD(
+  signal: ArrayLike<number>,
+  fs: number,
+  opts?: { segmentSeconds?: number; overlap?: number; nfft?: number }
+): PowerSpectrum {
+  const N0 = signal.length;
+  const segLen = Math.max(8, Math.min(N0, Math.round((opts?.segmentSeconds ?? 8) * fs)));
+  const overlap = Math.max(0, Math.min(0.9, opts?.overlap ?? 0.5));
+  const hop = Math.max(1, Math.round(segLen * (1 - overlap)));
+  const nfft = Math.max(nearestPow2(segLen), opts?.nfft ?? 0);
+  const win = hann(segLen);
+  const acc = new Float64Array(nfft / 2 + 1);
+  let count = 0;
+  for (let start = 0; start + segLen <= N0; start += hop) {
+    const p = segmentPower(signal, start, segLen, nfft, win);
+    for (let k = 0; k < acc.length; k++) acc[k] += p[k];
+    count++;
+  }
+  if (!count) return periodogram(signal, fs, { nfft });
+  for (let k = 0; k < acc.length; k++) acc[k] /= count;
+  return toSpectrum(acc, fs, nfft);
+}
+
+// DTFT power of the Hann-windowed signal at an arbitrary frequency
+function dtftPower(signal: ArrayLike<number>, fs: number, hz: number, win: Float64Array) {
+  const w = (2 * Math.PI * hz) / fs;
+  let re = 0, im = 0;
+  for (let i = 0; i < signal.length; i++) {
+    const v = signal[i] * win[i];
+    re += v * Math.cos(w * i);
+    im -= v * Math.sin(w * i);
+  }
+  return re * re + im * im;
+}
+
+// Highest peak within [minHz, maxHz], optionally refined below bin resolution.
+// "parabolic" fits a parabola through the log-power of the peak and its neighbours;
+// "zoom" evaluates the DTFT of `signal` on a fine grid (0.002 Hz) within ±1 bin.
+export function findSpectralPeak(
+  spec: PowerSpectrum,
+  minHz: number,
+  maxHz: number,
+  opts?: { refine?: PeakRefinement; signal?: ArrayLike<number>; fs?: number }
+): SpectralPeak | null {
+  const { freqs, power } = spec;
+  if (freqs.length < 3) return null;
+  const df = freqs[1] - freqs[0];
+  const minBin = Math.max(1, Math.floor(minHz / df));
+  const maxBin = Math.min(freqs.length - 2, Math.ceil(maxHz / df));
+  let bin = -1, best = 0;
+  for (let k = minBin; k <= maxBin; k++) if (power[k] > best) { best = power[k]; bin = k; }
+  if (bin < 0) return null;
+
+  const refine = opts?.refine ?? "parabolic";
+  if (refine === "parabolic") {
+    const a = Math.log(Math.max(1e-20, power[bin - 1]));
+    const b = Math.log(Math.max(1e-20, power[bin]));
+    const c = Math.log(Math.max(1e-20, power[bin + 1]));
+    const denom = a - 2 * b + c;
+    const delta = denom < 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (a - c)) / denom)) : 0;
+    const hz = (bin + delta) * df;
+    const logP = b - 0.25 * (a - c) * delta;
+    return { hz, power: Math.exp(logP), bin };
+  }
+  if (refine === "zoom" && opts?.signal && opts?.fs) {
+    const sig = opts.signal;
+    const win = hann(sig.length);
+    let bestHz = freqs[bin], bestP = -1;
+    for (let hz = freqs[bin] - df; hz <= freqs[bin] + df; hz += 0.002) {
+      if (hz < minHz || hz > maxHz) continue;
+      const p = dtftPower(sig, opts.fs, hz, win);
+      if (p > bestP) { bestP = p; bestHz = hz; }
+    }
+    return { hz: bestHz, power: best, bin };
+  }
+  return { hz: freqs[bin], power: best, bin };
+}
+
+// Lomb–Scargle periodogram of an unevenly sampled series `y` at times `t` (s),
+// scaled to a one-sided PSD (units²/Hz) so band powers compare with Welch estimates
+export function lombScargle(t: ArrayLike<number>, y: ArrayLike<number>, freqs: number[]): PowerSpectrum {
+  const n = Math.min(t.length, y.length);
+  const power = new Array<number>(freqs.length).fill(0);
+  if (n < 3) return { freqs, power };
+  let m = 0;
+  for (let i = 0; i < n; i++) m += y[i];
+  m /= n;
+  const duration = t[n - 1] - t[0];
+  const fsMean = duration > 0 ? (n - 1) / duration : 1;
+  for (let k = 0; k < freqs.length; k++) {
+    const w = 2 * Math.PI * freqs[k];
+    if (!(w > 0)) continue;
+    // time offset tau makes the sine and cosine terms orthogonal
+    let s2 = 0, c2 = 0;
+    for (let i = 0; i < n; i++) { s2 += Math.sin(2 * w * t[i]); c2 += Math.cos(2 * w * t[i]); }
+    const tau = Math.atan2(s2, c2) / (2 * w);
+    let yc = 0, ys = 0, cc = 0, ss = 0;
+    for (let i = 0; i < n; i++) {
+      const c = Math.cos(w * (t[i] - tau)), s = Math.sin(w * (t[i] - tau));
+      const d = y[i] - m;
+      yc += d * c; ys += d * s; cc += c * c; ss += s * s;
+    }
+    const p = 0.5 * ((cc > 0 ? (yc * yc) / cc : 0) + (ss > 0 ? (ys * ys) / ss : 0));
+    // for even sampling p ≈ |DFT|²/n, hence 2p/fs is the one-sided density
+    power[k] = (2 * p) / fsMean;
+  }
+  return { freqs, power };
+}
+
+// Integrated power of a spectrum over [lo, hi) Hz (rectangle rule)
+export function bandPower(spec: PowerSpectrum, lo: number, hi: number) {
+  const { freqs, power } = spec;
+  let sum = 0;
+  for (let k = 0; k < freqs.length; k++) {
+    if (freqs[k] < lo || freqs[k] >= hi) continue;
+    const df = k + 1 < freqs.length ? freqs[k + 1] - freqs[k] : freqs[k] - freqs[k - 1];
+    sum += power[k] * df;
+  }
+  return sum;
+}
+
+// Power at arbitrary frequencies (Hz), linearly interpolated between bins
+export function interpolateSpectrum(spec: PowerSpectrum, hz: number[]): number[] {
+  const { freqs, power } = spec;
+  if (freqs.length < 2) return hz.map(() => 0);
+  const df = freqs[1] - freqs[0];
+  return hz.map((f) => {
+    const pos = f / df;
+    const k = Math.floor(pos);
+    if (k < 0 || k >= power.length - 1) return 0;
+    return power[k] + (power[k + 1] - power[k]) * (pos - k);
+  });
+}
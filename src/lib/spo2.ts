@@ -0,0 +1,154 @@
+import { filterPulseSignal } from "./ppg";
+import { DEFAULT_RESAMPLE_HZ, frameTimingStats, resampleUniform, type FrameTiming, type Interpolation } from "./resample";
+
+// EXPERIMENTAL. Camera SpO2 is not validated: consumer cameras have broad, overlapping colour
+// filters and no isosbestic reference, so the ratio only tracks relative changes unless a
+// per-device calibration is supplied.
+
+export type SpO2Reference = "blue" | "green";
+
+// Linear calibration SpO2 = a − b·R, with R the ratio of ratios red vs. `reference`
+export interface SpO2Calibration {
+  name: string;
+  a: number;
+  b: number;
+  reference: SpO2Reference;
+  minRatio?: number; // ratios outside [minRatio, maxRatio] are treated as unreliable
+  maxRatio?: number;
+  // set only on the built-in placeholder: a flag rather than identity, so it survives postMessage copies
+  uncalibrated?: boolean;
+}
+
+// Textbook pulse-oximeter line; a placeholder until a device profile is loaded
+export const DEFAULT_SPO2_CALIBRATION: SpO2Calibration = { name: "uncalibrated (110 − 25R)", a: 110, b: 25, reference: "blue", minRatio: 0.4, maxRatio: 1.2, uncalibrated: true };
+
+export interface SpO2Quality {
+  acDcRed: number | null; // AC/DC of red
+  acDcRef: number | null; // AC/DC of the reference channel
+  correlation: number | null; // red vs. reference pulse, both should pulsate in phase
+  reasons: string[];
+}
+
+export interface SpO2Result {
+  spo2: number | null; // %, clamped to 70..100
+  confidence: number; // 0..1
+  lowConfidence: boolean; // true when the value should not be shown as a reading
+  sampleRate: number | null;
+  windowSeconds: number;
+  timing: FrameTiming | null;
+  ratio: number | null; // ratio of ratios
+  calibration: string; // name of the calibration profile used
+  quality: SpO2Quality | null;
+}
+
+function mean(x: ArrayLike<number>) {
+  let s = 0;
+  for (let i = 0; i < x.length; i++) s += x[i];
+  return x.length ? s / x.length : 0;
+}
+
+function rms(x: ArrayLike<number>) {
+  let s = 0;
+  for (let i = 0; i < x.length; i++) s += x[i] * x[i];
+  return x.length ? Math.sqrt(s / x.length) : 0;
+}
+
+function pearson(a: ArrayLike<number>, b: ArrayLike<number>) {
+  const n = Math.min(a.length, b.length);
+  const ma = mean(a), mb = mean(b);
+  let num = 0, da = 0, db = 0;
+  for (let i = 0; i < n; i++) {
+    const x = a[i] - ma, y = b[i] - mb;
+    num += x * y; da += x * x; db += y * y;
+  }
+  return da > 0 && db > 0 ? num / Math.sqrt(da * db) : 0;
+}
+
+// Validate a calibration profile (e.g. parsed from JSON); null when it is unusable
+export function parseSpO2Calibration(data: unknown): SpO2Calibration | null {
+  if (!data || typeof data !== "object") return null;
+  const d = data as Record<string, unknown>;
+  const a = Number(d.a), b = Number(d.b);
+  if (!Number.isFinite(a) || !Number.isFinite(b)) return null;
+  const reference = d.reference === "green" ? "green" : d.reference == null || d.reference === "blue" ? "blue" : null;
+  if (!reference) return null;
+  const num = (v: unknown) => (v == null || !Number.isFinite(Number(v)) ? undefined : Number(v));
+  return {
+    name: typeof d.name === "string" && d.name ? d.name : "custom",
+    a,
+    b,
+    reference,
+    minRatio: num(d.minRatio),
+    maxRatio: num(d.maxRatio),
+  };
+}
+
+// Ratio-of-ratios SpO2 from mean R/G/B traces. AC is the RMS of each channel band-passed
+// over the heart-rate band, DC its mean; R = (AC/DC)red / (AC/DC)reference.
+export function estimateSpO2(
+  samples: { t: number; r?: number; g: number; b?: number }[],
+  opts?: {
+    calibration?: SpO2Calibration;
+    minBpm?: number;
+    maxBpm?: number;
+    resampleHz?: number;
+    interpolation?: Interpolation;
+    minConfidence?: number; // below this the result is flagged low-confidence, default 0.5
+  }
+): SpO2Result {
+  const cal = opts?.calibration ?? DEFAULT_SPO2_CALIBRATION;
+  const minConfidence = opts?.minConfidence ?? 0.5;
+  const none = (timing: FrameTiming | null, sampleRate: number | null, windowSeconds: number, reasons: string[]): SpO2Result => ({
+    spo2: null, confidence: 0, lowConfidence: true, sampleRate, windowSeconds, timing, ratio: null, calibration: cal.name,
+    quality: { acDcRed: null, acDcRef: null, correlation: null, reasons },
+  });
+  if (samples.length < 128 || samples.some((s) => s.r == null || s.b == null)) return none(null, null, 0, ["Needs mean R/G/B samples"]);
+
+  const timing = frameTimingStats(samples);
+  if (!timing) return none(null, null, 0, ["Not enough frames"]);
+  const fs = opts?.resampleHz ?? DEFAULT_RESAMPLE_HZ;
+  const uniform = resampleUniform(samples, fs, opts?.interpolation);
+  const windowSeconds = uniform.length / fs;
+  const band: [number, number] = [(opts?.minBpm ?? 42) / 60, (opts?.maxBpm ?? 180) / 60];
+
+  const red = uniform.map((s) => s.r ?? 0);
+  const ref = uniform.map((s) => (cal.reference === "green" ? s.g : s.b ?? 0));
+  const dcRed = mean(red), dcRef = mean(ref);
+  if (!(dcRed > 1) || !(dcRef > 1)) return none(timing, fs, windowSeconds, ["Channel too dark"]);
+  const acRed = filterPulseSignal(red, fs, band);
+  const acRef = filterPulseSignal(ref, fs, band);
+  const acDcRed = rms(acRed) / dcRed;
+  const acDcRef = rms(acRef) / dcRef;
+  const correlation = pearson(acRed, acRef);
+  const ratio = acDcRef > 0 ? acDcRed / acDcRef : null;
+
+  const reasons: string[] = [];
+  let confidence = Math.max(0, Math.min(1, correlation));
+  if (correlation < 0.5) reasons.push(`Red and ${cal.reference} pulses disagree (r=${correlation.toFixed(2)})`);
+  if (windowSeconds < 15) {
+    confidence *= windowSeconds / 15;
+    reasons.push("Window shorter than 15 s");
+  }
+  if (ratio == null || (cal.minRatio != null && ratio < cal.minRatio) || (cal.maxRatio != null && ratio > cal.maxRatio)) {
+    confidence *= 0.3;
+    reasons.push(`Ratio outside calibrated range (${ratio?.toFixed(2) ?? "—"})`);
+  }
+  if (Math.max(...red) >= 250) {
+    confidence *= 0.5;
+    reasons.push("Red channel clipping");
+  }
+  if (cal.uncalibrated) reasons.push("Uncalibrated: load a device profile for absolute values");
+
+  const spo2 = ratio != null ? Math.max(70, Math.min(100, cal.a - cal.b * ratio)) : null;
+  return {
+    spo2,
+    confidence,
+    lowConfidence: spo2 == null || confidence < minConfidence || !!cal.uncalibrated,
+    sampleRate: fs,
+    windowSeconds,
+    timing,
+    ratio,
+    calibration: cal.name,
+    quality: { acDcRed, acDcRef, correlation, reasons },
+  };
+}
@@ -0,0 +1,307 @@
+import { butterworthBandpass, createSosStream, type Biquad } from "./dsp";
+import { findSpectralPeak, periodogram, welchPSD } from "./spectrum";
+import { assessSignalQuality } from "./signalQuality";
+import { detectBeats } from "./beats";
+import { DEFAULT_RESAMPLE_HZ, frameTimingStats } from "./resample";
+import { fuseRegionPulses, ROI_NAMES, type RoiName } from "./roi";
+import { cancelAlignedMotion, MOTION_CHANNELS, type MotionMode, type MotionRejection, type MotionSample } from "./motionArtifact";
+import type { HRResult, PulseAlgorithm, RGBSample } from "./ppg";
+import type { RespirationResult } from "./ppgExtras";
+
+// Fixed-capacity ring buffer of numbers, oldest first on read-out
+function createRing(capacity: number) {
+  const buf = new Float64Array(capacity);
+  let start = 0, size = 0;
+  return {
+    push(v: number) {
+      if (size < capacity) buf[(start + size++) % capacity] = v;
+      else { buf[start] = v; start = (start + 1) % capacity; }
+    },
+    toArray() {
+      const out = new Float64Array(size);
+      for (let i = 0; i < size; i++) out[i] = buf[(start + i) % capacity];
+      return out;
+    },
+    get length() { return size; },
+    clear() { start = 0; size = 0; },
+  };
+}
+
+// Optional per-frame extras alongside the whole-ROI color
+export interface StreamingFrame {
+  // mean color per region; null when the skin mask removed the region, which then holds its last color
+  regions?: Partial<Record<RoiName, { r: number; g: number; b: number } | null>>;
+  motion?: MotionSample | null; // head motion at the same instant, used as artifact reference
+}
+
+export interface StreamingHRResult extends HRResult {
+  roiWeights: Record<RoiName, number> | null; // SNR fusion weights, null when the whole-ROI pulse is used
+}
+
+export interface StreamingPulseAnalyzer {
+  push(sample: RGBSample, frame?: StreamingFrame): void; // one camera frame, timestamps in ms
+  // spectrum and peak of the buffered window, computed on demand
+  heartRate(opts?: { skinRatio?: number | null; motionMode?: MotionMode }): StreamingHRResult;
+  respiration(): RespirationResult;
+  reset(): void;
+}
+
+// One color trace turned into a causal pulse value: inverted green, or CHROM/POS with
+// running means and running alpha. `step` returns null while the filters settle.
+function createPulseChannel(algorithm: PulseAlgorithm, sections: Biquad[], emaNorm: number, settle: number) {
+  const bpA = createSosStream(sections);
+  const bpB = createSosStream(sections);
+  const mean = { r: 0, g: 0, b: 0 };
+  let g0 = 0, varA = 0, varB = 0, count = 0;
+  return {
+    step(r: number, g: number, b: number): number | null {
+      if (count === 0) {
+        g0 = g;
+        mean.r = r; mean.g = g; mean.b = b;
+      }
+      count++;
+      mean.r += emaNorm * (r - mean.r);
+      mean.g += emaNorm * (g - mean.g);
+      mean.b += emaNorm * (b - mean.b);
+
+      let v: number;
+      if (algorithm === "green" || !(mean.r > 0 && mean.b > 0)) {
+        v = bpA.step(g0 - g); // inverted, as in extractPulseSignal
+      } else {
+        const rn = r / mean.r, gn = g / mean.g, bn = b / mean.b;
+        // CHROM: X = 3r − 2g, Y = 1.5r + g − 1.5b, S = X − αY
+        // POS:   S1 = g − b, S2 = g + b − 2r, h = S1 + αS2
+        const a = algorithm === "chrom" ? bpA.step(3 * rn - 2 * gn) : bpA.step(gn - bn);
+        const c = algorithm === "chrom" ? bpB.step(1.5 * rn + gn - 1.5 * bn) : bpB.step(gn + bn - 2 * rn);
+        varA += emaNorm * (a * a - varA);
+        varB += emaNorm * (c * c - varB);
+        const alpha = varB > 0 ? Math.sqrt(varA / varB) : 0;
+        v = algorithm === "chrom" ? a - alpha * c : a + alpha * c;
+      }
+      return count > settle ? v : null;
+    },
+    reset() {
+      bpA.reset(); bpB.reset();
+      count = 0;
+      varA = varB = 0;
+    },
+  };
+}
+
+// Incremental pulse analysis for the render loop. Each frame is resampled onto the uniform
+// grid by linear interpolation against the previous frame, converted to pulse values for the
+// whole ROI and for each region, and band-passed by causal biquads whose state persists
+// between frames; head motion goes through the same band-pass to serve as NLMS reference.
+// Only the filtered values are kept, in ring buffers, so a heart-rate update costs the region
+// SNRs, the motion canceller and one Welch estimate over the window, and nothing is re-filtered.
+// Causal filtering delays the waveform slightly compared with the zero-phase `filterPulseSignal`.
+export function createStreamingPulseAnalyzer(opts?: {
+  algorithm?: PulseAlgorithm;
+  sampleRate?: number; // uniform analysis rate, default 30 Hz
+  windowSeconds?: number; // heart-rate window, default 20
+  minBpm?: number;
+  maxBpm?: number;
+  respWindowSeconds?: number; // respiration window, default 60
+  minBreathsPerMin?: number;
+  maxBreathsPerMin?: number;
+}): StreamingPulseAnalyzer {
+  const algorithm = opts?.algorithm ?? "green";
+  const fs = opts?.sampleRate ?? DEFAULT_RESAMPLE_HZ;
+  const minBpm = opts?.minBpm ?? 42;
+  const maxBpm = opts?.maxBpm ?? 180;
+  const minBr = opts?.minBreathsPerMin ?? 6;
+  const maxBr = opts?.maxBreathsPerMin ?? 30;
+  const dt = 1000 / fs;
+  const respDecim = Math.max(1, Math.round(fs / 5)); // respiration is kept at ~5 Hz
+  const respFs = fs / respDecim;
+
+  const hrSections = butterworthBandpass(2, minBpm / 60, maxBpm / 60, fs);
+  const bpResp = createSosStream(butterworthBandpass(2, minBr / 60, maxBr / 60, fs));
+  const emaNorm = 1 - Math.exp(-1 / (1.6 * fs)); // ~1.6 s running means, as the batch CHROM/POS windows
+  // skip the filters' start-up transient
+  const settle = Math.round((2.5 * fs * 60) / minBpm);
+  const respSettle = Math.round((1.5 * fs * 60) / minBr);
+
+  const hrCap = Math.round((opts?.windowSeconds ?? 20) * fs);
+  const respCap = Math.round((opts?.respWindowSeconds ?? 60) * respFs);
+  const roi = createPulseChannel(algorithm, hrSections, emaNorm, settle);
+  const pulseRing = createRing(hrCap);
+  const timeRing = createRing(hrCap);
+  const greenRing = createRing(hrCap); // raw green, for the perfusion index DC
+  const respRing = createRing(respCap);
+  const frameTimes = createRing(Math.round((opts?.windowSeconds ?? 20) * fs * 2));
+  const regions = ROI_NAMES.map((name) => ({ name, channel: createPulseChannel(algorithm, hrSections, emaNorm, settle), ring: createRing(hrCap) }));
+  const motionStreams = MOTION_CHANNELS.map(() => createSosStream(hrSections));
+  const motionRings = MOTION_CHANNELS.map(() => createRing(hrCap)); // as recorded, for the gate
+  const motionRefRings = MOTION_CHANNELS.map(() => createRing(hrCap)); // band-passed, for NLMS
+  const motionRespRings = MOTION_CHANNELS.map(() => createRing(respCap)); // at the respiration rate, for its gate
+
+  // per-frame values: whole-ROI rgb, rgb per region, then the motion channels; NaN until first seen
+  const MOTION_AT = 3 + 3 * ROI_NAMES.length;
+  const width = MOTION_AT + MOTION_CHANNELS.length;
+  const scratch = new Float64Array(width);
+  let prev: Float64Array | null = null;
+  let prevT = 0;
+  let nextT = 0;
+  let count = 0;
+  let motionCount = 0;
+  let g0 = 0;
+  const motion0 = new Float64Array(MOTION_CHANNELS.length);
+
+  function reset() {
+    roi.reset(); bpResp.reset();
+    pulseRing.clear(); timeRing.clear(); greenRing.clear(); respRing.clear(); frameTimes.clear();
+    for (const r of regions) { r.channel.reset(); r.ring.clear(); }
+    motionStreams.forEach((s) => s.reset());
+    motionRings.forEach((r) => r.clear());
+    motionRefRings.forEach((r) => r.clear());
+    motionRespRings.forEach((r) => r.clear());
+    prev = null;
+    count = motionCount = 0;
+  }
+
+  // one sample on the uniform grid
+  function process(t: number, v: Float64Array) {
+    if (count === 0) g0 = v[1];
+    count++;
+    const pulse = roi.step(v[0], v[1], v[2]);
+    if (pulse != null) {
+      pulseRing.push(pulse);
+      timeRing.push(t);
+      greenRing.push(v[1]);
+    }
+    regions.forEach(({ channel, ring }, k) => {
+      const o = 3 + 3 * k;
+      if (Number.isNaN(v[o + 1])) return;
+      const p = channel.step(v[o], v[o + 1], v[o + 2]);
+      if (p != null) ring.push(p);
+    });
+    if (!Number.isNaN(v[MOTION_AT])) {
+      if (motionCount++ === 0) motion0.set(v.subarray(MOTION_AT));
+      MOTION_CHANNELS.forEach((_, j) => {
+        // relative to the first value, so a still channel filters to exactly zero and drops out
+        const f = motionStreams[j].step(v[MOTION_AT + j] - motion0[j]);
+        if (motionCount <= settle) return;
+        motionRings[j].push(v[MOTION_AT + j]);
+        motionRefRings[j].push(f);
+      });
+    }
+    const resp = bpResp.step(v[1] - g0);
+    if (count > respSettle && count % respDecim === 0) {
+      respRing.push(resp);
+      if (!Number.isNaN(v[MOTION_AT])) MOTION_CHANNELS.forEach((_, j) => motionRespRings[j].push(v[MOTION_AT + j]));
+    }
+  }
+
+  return {
+    push(s: RGBSample, frame?: StreamingFrame) {
+      frameTimes.push(s.t);
+      // a long gap breaks the filters' continuity; start over
+      if (prev && (s.t <= prevT || s.t - prevT > 1000)) {
+        if (s.t <= prevT) return;
+        reset();
+        frameTimes.push(s.t);
+      }
+      const cur = new Float64Array(width).fill(NaN);
+      cur[0] = s.r ?? s.g; cur[1] = s.g; cur[2] = s.b ?? s.g;
+      ROI_NAMES.forEach((name, k) => {
+        const o = 3 + 3 * k;
+        const c = frame?.regions?.[name];
+        if (c) { cur[o] = c.r; cur[o + 1] = c.g; cur[o + 2] = c.b; }
+        else if (prev) { cur[o] = prev[o]; cur[o + 1] = prev[o + 1]; cur[o + 2] = prev[o + 2]; }
+      });
+      const m = frame?.motion;
+      MOTION_CHANNELS.forEach((ch, j) => { cur[MOTION_AT + j] = m ? m[ch] : prev ? prev[MOTION_AT + j] : NaN; });
+
+      if (!prev) {
+        prev = cur;
+        prevT = nextT = s.t;
+        process(s.t, cur);
+        nextT += dt;
+        return;
+      }
+      while (nextT <= s.t) {
+        const f = (nextT - prevT) / (s.t - prevT);
+        for (let i = 0; i < width; i++) scratch[i] = prev[i] + f * (cur[i] - prev[i]);
+        process(nextT, scratch);
+        nextT += dt;
+      }
+      prev = cur;
+      prevT = s.t;
+    },
+
+    heartRate(hrOpts?: { skinRatio?: number | null; motionMode?: MotionMode }): StreamingHRResult {
+      const timing = frameTimingStats(Array.from(frameTimes.toArray(), (t) => ({ t })));
+      const n = pulseRing.length;
+      const windowSeconds = n / fs;
+      const empty: StreamingHRResult = { bpm: null, confidence: 0, sampleRate: fs, windowSeconds, algorithm, timing, spectrum: null, peakHz: null, quality: null, motion: null, trace: null, roiWeights: null };
+      if (n < 64) return empty;
+      const t = Array.from(timeRing.toArray());
+
+      // SNR-weighted fusion of the regions that cover the whole window; whole-ROI pulse otherwise
+      const regionPulses: Partial<Record<RoiName, Float64Array>> = {};
+      for (const { name, ring } of regions) if (ring.length === n) regionPulses[name] = ring.toArray();
+      const fused = fuseRegionPulses(regionPulses, fs, minBpm, maxBpm);
+      let pulse = fused?.pulse ?? pulseRing.toArray();
+
+      // cancel / gate head-motion artifacts using the motion recorded with the frames
+      let motion: MotionRejection | null = null;
+      const mode = hrOpts?.motionMode ?? "both";
+      if (mode !== "none" && motionRings[0].length === n) {
+        const aligned: Record<string, Float64Array> = {};
+        const refs: Record<string, Float64Array> = {};
+        MOTION_CHANNELS.forEach((ch, j) => {
+          aligned[ch] = motionRings[j].toArray();
+          refs[ch] = motionRefRings[j].toArray();
+        });
+        const rej = cancelAlignedMotion(pulse, aligned, fs, { mode, band: [minBpm / 60, maxBpm / 60], refs });
+        pulse = rej.signal;
+        motion = rej.info;
+      }
+
+      const spectrum = welchPSD(pulse, fs, { nfft: 2048 });
+      const peak = findSpectralPeak(spectrum, minBpm / 60, maxBpm / 60);
+      const greens = greenRing.toArray();
+      let dc = 0;
+      for (let i = 0; i < greens.length; i++) dc += greens[i] / greens.length;
+      const quality = assessSignalQuality({
+        pulse,
+        fs,
+        spectrum,
+        hrHz: peak?.hz ?? null,
+        // CHROM/POS are normalized by the running means and the fused pulse is zero-mean:
+        // neither has a DC, so perfusion is only measured on the raw green pulse
+        dc: !fused && algorithm === "green" && dc > 1 ? dc : null,
+        skinRatio: hrOpts?.skinRatio,
+      });
+      const trace = { t, value: Array.from(pulse), beats: detectBeats(pulse, t, fs, { hrHz: peak?.hz, maxBpm }) };
+      const base = { ...empty, spectrum, quality, motion, trace, roiWeights: fused?.weights ?? null };
+      if (!peak) return base;
+      return { ...base, bpm: peak.hz * 60, confidence: quality.score, peakHz: peak.hz };
+    },
+    respiration(): RespirationResult {
+      const timing = frameTimingStats(Array.from(frameTimes.toArray(), (t) => ({ t })));
+      const windowSeconds = respRing.length / respFs;
+      if (respRing.length < 32) return { bpm: null, confidence: 0, sampleRate: respFs, windowSeconds, timing };
+      let resp: ArrayLike<number> = respRing.toArray();
+      // gating only: breathing itself moves the head, so motion must not be cancelled adaptively
+      if (motionRespRings[0].length === respRing.length) {
+        const aligned: Record<string, Float64Array> = {};
+        MOTION_CHANNELS.forEach((ch, j) => { aligned[ch] = motionRespRings[j].toArray(); });
+        resp = cancelAlignedMotion(resp, aligned, respFs, { mode: "gate" }).signal;
+      }
+      const spec = periodogram(resp, respFs, { nfft: 1024 });
+      const peak = findSpectralPeak(spec, minBr / 60, maxBr / 60);
+      if (!peak) return { bpm: null, confidence: 0, sampleRate: respFs, windowSeconds, timing };
+      let inPeak = 0, total = 0;
+      spec.freqs.forEach((f, k) => {
+        if (f < minBr / 60 || f > maxBr / 60) return;
+        total += spec.power[k];
+        if (Math.abs(f - peak.hz) <= 0.03) inPeak += spec.power[k];
+      });
+      return { bpm: peak.hz * 60, confidence: total > 0 ? inPeak / total : 0, sampleRate: respFs, windowSeconds, timing };
+    },
+
+    reset,
+  };
+}
@@ -0,0 +1,113 @@
+import { extractPulseSignal, filterPulseSignal } from "./ppg";
+import { detectBeats } from "./beats";
+import { interpolate, type Interpolation } from "./resample";
+
+// RESEARCH FEATURE. Pulse arrival time differences between facial regions, as a blood-pressure
+// proxy. Delays are tens of milliseconds, i.e. about one frame, so they are only meaningful
+// as trends over many windows at a stable frame rate.
+
+export interface RegionTransit {
+  region: string;
+  delayMs: number | null; // > 0: the pulse reaches `region` after the reference region
+  correlation: number; // median peak beat-wise cross-correlation, 0..1
+  beats: number; // beats that entered the median
+}
+
+export interface TransitTimeResult {
+  reference: string | null;
+  regions: RegionTransit[];
+  windowSeconds: number;
+  sampleRate: number | null;
+}
+
+function median(x: number[]) {
+  if (!x.length) return null;
+  const s = [...x].sort((a, b) => a - b);
+  const m = s.length >> 1;
+  return s.length % 2 ? s[m] : 0.5 * (s[m - 1] + s[m]);
+}
+
+// Normalized cross-correlation of a[from..to) with b shifted by `lag` samples
+function xcorrAt(a: ArrayLike<number>, b: ArrayLike<number>, from: number, to: number, lag: number) {
+  let ma = 0, mb = 0, n = 0;
+  for (let i = from; i < to; i++) { ma += a[i]; mb += b[i + lag]; n++; }
+  ma /= n; mb /= n;
+  let num = 0, da = 0, db = 0;
+  for (let i = from; i < to; i++) {
+    const x = a[i] - ma, y = b[i + lag] - mb;
+    num += x * y; da += x * x; db += y * y;
+  }
+  return da > 0 && db > 0 ? num / Math.sqrt(da * db) : 0;
+}
+
+// Beat-wise cross-correlation between a reference region and every other region.
+// All regions are resampled onto one grid over their common time span and band-passed to
+// the heart-rate band. Each reference beat (foot −20% to +80% of a period) is correlated with
+// the other region over lags up to `maxLagMs`; the lag of the correlation maximum is refined
+// with a parabolic fit and the per-beat lags are summarized by their median.
+export function estimateTransitTime(
+  regions: Record<string, { t: number; g: number }[]>,
+  opts?: {
+    reference?: string; // default: the first region
+    minBpm?: number;
+    maxBpm?: number;
+    resampleHz?: number; // default 60, finer than the camera so lags interpolate smoothly
+    interpolation?: Interpolation;
+    maxLagMs?: number; // default 150
+    minCorrelation?: number; // beats below are discarded, default 0.5
+  }
+): TransitTimeResult {
+  const names = Object.keys(regions).filter((k) => regions[k].length >= 64);
+  const reference = opts?.reference && names.includes(opts.reference) ? opts.reference : names[0] ?? null;
+  const fs = opts?.resampleHz ?? 60;
+  if (!reference || names.length < 2) return { reference, regions: [], windowSeconds: 0, sampleRate: null };
+
+  // common uniform grid (ms)
+  const start = Math.max(...names.map((k) => regions[k][0].t));
+  const end = Math.min(...names.map((k) => regions[k][regions[k].length - 1].t));
+  const grid: number[] = [];
+  for (let t = start; t <= end; t += 1000 / fs) grid.push(t);
+  if (grid.length < 64) return { reference, regions: [], windowSeconds: 0, sampleRate: fs };
+
+  const band: [number, number] = [(opts?.minBpm ?? 42) / 60, (opts?.maxBpm ?? 180) / 60];
+  const pulses: Record<string, Float64Array> = {};
+  for (const k of names) {
+    const src = regions[k].filter((s, i, arr) => i === 0 || s.t > arr[i - 1].t);
+    const g = interpolate(src.map((s) => s.t), src.map((s) => s.g), grid, opts?.interpolation ?? "cubic");
+    pulses[k] = filterPulseSignal(extractPulseSignal(grid.map((t, i) => ({ t, g: g[i] })), "green", fs), fs, band);
+  }
+
+  const ref = pulses[reference];
+  const beats = detectBeats(ref, grid, fs, { maxBpm: opts?.maxBpm ?? 180 });
+  const maxLag = Math.max(1, Math.round(((opts?.maxLagMs ?? 150) / 1000) * fs));
+  const minCorr = opts?.minCorrelation ?? 0.5;
+
+  const out: RegionTransit[] = [];
+  for (const k of names) {
+    if (k === reference) continue;
+    const other = pulses[k];
+    const lags: number[] = [];
+    const corrs: number[] = [];
+    for (let b = 0; b + 1 < beats.length; b++) {
+      const period = beats[b + 1].onsetIndex - beats[b].onsetIndex;
+      const from = beats[b].onsetIndex - Math.round(0.2 * period);
+      const to = beats[b].onsetIndex + Math.round(0.8 * period);
+      if (from - maxLag < 0 || to + maxLag > other.length) continue;
+      let best = -Infinity, bestLag = 0;
+      const c = new Float64Array(2 * maxLag + 1);
+      for (let lag = -maxLag; lag <= maxLag; lag++) {
+        c[lag + maxLag] = xcorrAt(ref, other, from, to, lag);
+        if (c[lag + maxLag] > best) { best = c[lag + maxLag]; bestLag = lag; }
+      }
+      if (best < minCorr || Math.abs(bestLag) === maxLag) continue; // weak or at the search edge
+      const y0 = c[bestLag + maxLag - 1], y1 = c[bestLag + maxLag], y2 = c[bestLag + maxLag + 1];
+      const denom = y0 - 2 * y1 + y2;
+      const delta = denom < 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (y0 - y2)) / denom)) : 0;
+      lags.push(((bestLag + delta) * 1000) / fs);
+      corrs.push(best);
+    }
+    out.push({ region: k, delayMs: median(lags), correlation: median(corrs) ?? 0, beats: lags.length });
+  }
+
+  return { reference, regions: out, windowSeconds: grid.length / fs, sampleRate: fs };
+}
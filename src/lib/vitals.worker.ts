@@ -0,0 +1,96 @@
+// Slower vitals off the render loop: respiration, pulse transit, HRV, morphology and SpO2 each
+// re-filter up to minutes of frames, which stalls the main thread on low-end machines.
+// The page posts every frame; the worker keeps its own history and posts results on a timer
+// driven by the frame timestamps.
+import { estimateFusedRespiration, type FusedRespiration } from "./respiration";
+import { estimateTransitTime, type TransitTimeResult } from "./transitTime";
+import { estimateHRV, estimateMorphology, nonlinearHRV, type HRVResult, type MorphologyResult, type NonlinearHRV } from "./ppgExtras";
+import { estimateSpO2, type SpO2Calibration, type SpO2Result } from "./spo2";
+import { ROI_NAMES, type RoiName } from "./roi";
+import type { MotionSample } from "./motionArtifact";
+import type { PulseAlgorithm } from "./ppg";
+
+interface Sample { t: number; r: number; g: number; b: number }
+
+export type VitalsRequest =
+  // regions are null when the skin mask removed them; they then hold their last color
+  | { type: "frame"; sample: Sample; regions: Record<RoiName, { r: number; g: number; b: number } | null>; motion: MotionSample }
+  | { type: "spo2"; enabled: boolean; calibration: SpO2Calibration }
+  | { type: "algorithm"; algorithm: PulseAlgorithm }; // pulse extraction selected on the page
+
+export type VitalsResponse =
+  | { type: "respiration"; respiration: FusedRespiration; transit: TransitTimeResult }
+  | { type: "hrv"; hrv: HRVResult; morphology: MorphologyResult; nonlinear: NonlinearHRV | null }
+  | { type: "spo2"; spo2: SpO2Result };
+
+const samples: Sample[] = []; // 20 s
+// spectral HRV needs minutes of beats (LF ≥ 2 min, VLF ≥ 5 min), so it keeps a longer history
+const hrvSamples: Sample[] = [];
+const regionSamples: Record<RoiName, Sample[]> = { forehead: [], leftCheek: [], rightCheek: [] };
+const motionSamples: MotionSample[] = []; // 60 s: it doubles as a respiration source
+const spo2 = { enabled: false, calibration: undefined as SpO2Calibration | undefined };
+let algorithm: PulseAlgorithm = "green";
+let lastSpO2 = 0, lastResp = 0, lastHRV = 0;
+
+function post(msg: VitalsResponse) {
+  self.postMessage(msg);
+}
+
+function trim<T extends { t: number }>(arr: T[], cutoff: number) {
+  while (arr.length && arr[0].t < cutoff) arr.shift();
+}
+
+function onFrame(sample: Sample, regions: Record<RoiName, { r: number; g: number; b: number } | null>, motion: MotionSample) {
+  const t = sample.t;
+  for (const name of ROI_NAMES) {
+    const rs = regionSamples[name];
+    const c = regions[name];
+    // a region masked out entirely keeps its last color rather than dropping to zero
+    const last = rs[rs.length - 1];
+    if (c) rs.push({ t, r: c.r, g: c.g, b: c.b });
+    else if (last) rs.push({ ...last, t });
+  }
+  samples.push(sample);
+  hrvSamples.push(sample);
+  motionSamples.push(motion);
+
+  trim(samples, t - 20000);
+  trim(motionSamples, t - 60000);
+  trim(hrvSamples, t - 300000);
+  for (const name of ROI_NAMES) trim(regionSamples[name], t - 20000);
+  if (samples.length <= 64) return;
+
+  if (spo2.enabled && (!lastSpO2 || t - lastSpO2 > 1000)) {
+    post({ type: "spo2", spo2: estimateSpO2(samples, { calibration: spo2.calibration, minBpm: 45, maxBpm: 170 }) });
+    lastSpO2 = t;
+  }
+
+  // Respiration (every ~2s): PPG baseline / amplitude / RSA modulations and head motion over 60s
+  if (!lastResp || t - lastResp > 2000) {
+    const recent = hrvSamples.filter((s) => t - s.t <= 60000);
+    post({
+      type: "respiration",
+      respiration: estimateFusedRespiration(recent, { algorithm, motion: motionSamples }),
+      // research: pulse arrival delay of the cheeks relative to the forehead
+      transit: estimateTransitTime(regionSamples, { reference: "forehead", minBpm: 45, maxBpm: 170 }),
+    });
+    lastResp = t;
+  }
+
+  // HRV (every ~5s)
+  if (!lastHRV || t - lastHRV > 5000) {
+    const hrv = estimateHRV(hrvSamples, { algorithm });
+    post({ type: "hrv", hrv, morphology: estimateMorphology(samples, { algorithm }), nonlinear: hrv.ibis.length >= 3 ? nonlinearHRV(hrv.ibis) : null });
+    lastHRV = t;
+  }
+}
+
+self.onmessage = (e: MessageEvent<VitalsRequest>) => {
+  const msg = e.data;
+  if (msg.type === "frame") onFrame(msg.sample, msg.regions, msg.motion);
+  else if (msg.type === "algorithm") algorithm = msg.algorithm;
+  else {
+    spo2.enabled = msg.enabled;
+    spo2.calibration = msg.calibration;
+  }
+};